@@ -0,0 +1,48 @@
+import type { CachedCorrection, CorrectionCache } from "./types.js";
+
+/** Everything that can change the LLM's answer for one citation */
+export interface CacheKeyParts {
+  /** The normalized citation */
+  citation: string;
+  before: string;
+  after: string;
+  /** Full citation a short form refers to, if any */
+  antecedent: string | undefined;
+  /** Footnote the citation appears in, if any */
+  footnote: number | undefined;
+  rules: string | undefined;
+  /** Model (or provider) identity; "" for a custom `llm` function */
+  model: string;
+  reorderStringCitations: boolean;
+  explain: boolean;
+  /** The style profile, serialized */
+  style: string;
+}
+
+/** Serialize the inputs that determine a citation's correction into a cache key */
+export function cacheKey(parts: CacheKeyParts): string {
+  const { citation, before, after, antecedent, footnote, rules, model, reorderStringCitations, explain, style } = parts;
+  return JSON.stringify([
+    citation,
+    before,
+    after,
+    antecedent ?? null,
+    footnote ?? null,
+    rules ?? "",
+    model,
+    reorderStringCitations,
+    explain,
+    style,
+  ]);
+}
+
+/** An in-memory cache, shared across calls for as long as the process lives */
+export function createMemoryCache(): CorrectionCache {
+  const entries = new Map<string, CachedCorrection>();
+  return {
+    get: (key) => entries.get(key),
+    set: (key, correction) => {
+      entries.set(key, correction);
+    },
+  };
+}
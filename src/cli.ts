@@ -0,0 +1,153 @@
+import { parseArgs } from "node:util";
+import type { BluebookifyOptions, BluebookifyResult, ItalicStyle, Provider, StyleName } from "./types.js";
+import { bluebookify, bluebookifyOffline, estimate } from "./core.js";
+import { unifiedDiff } from "./diff.js";
+import { createFileCache } from "./node.js";
+
+/** I/O used by the CLI, injectable for tests */
+export interface CliIo {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  env: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: bluebookify [options] [file...]
+
+Correct Bluebook citations in each file (or stdin when no file or "-" is given).
+
+Options:
+  -p, --provider <name>      LLM provider (openai, anthropic, gemini, ...)
+  -m, --model <name>         Model name
+  -k, --api-key <key>        API key (default: $BLUEBOOKIFY_API_KEY)
+      --base-url <url>       Custom OpenAI-compatible endpoint
+  -r, --rules <file>         File of custom rules prepended to the system prompt
+  -s, --style <name>         bluebook, bluepages, law-review, alwd or california
+      --italic-style <style> markdown, html, html-em, latex, latex-emph, rtf or plain
+      --batch-size <n>       Maximum citations per LLM call
+      --concurrency <n>      Maximum LLM calls in flight at once
+      --cache <file>         JSON file caching corrections between runs
+      --offline              Apply only the deterministic fixes; no LLM
+      --estimate             Print citations, batches and approximate prompt tokens; no LLM
+  -w, --write                Write corrected output back to each file
+      --diff                 Print a unified diff of the corrections
+      --check                Exit with status 1 if any citation would change
+  -h, --help                 Show this help
+`;
+
+/**
+ * Run the CLI with the given arguments.
+ *
+ * Returns the process exit code: 0 on success, 1 when `--check` finds
+ * citations that would change, 2 on usage or runtime errors.
+ */
+export async function runCli(argv: readonly string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        provider: { type: "string", short: "p" },
+        model: { type: "string", short: "m" },
+        "api-key": { type: "string", short: "k" },
+        "base-url": { type: "string" },
+        rules: { type: "string", short: "r" },
+        style: { type: "string", short: "s" },
+        "italic-style": { type: "string" },
+        "batch-size": { type: "string" },
+        concurrency: { type: "string" },
+        cache: { type: "string" },
+        offline: { type: "boolean" },
+        estimate: { type: "boolean" },
+        write: { type: "boolean", short: "w" },
+        diff: { type: "boolean" },
+        check: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    io.stderr(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  const inputs = positionals.length > 0 ? positionals : ["-"];
+  if (values.write && inputs.includes("-")) {
+    io.stderr("--write cannot be used with stdin\n");
+    return 2;
+  }
+
+  try {
+    const options: BluebookifyOptions = {
+      provider: values.provider as Provider | undefined,
+      model: values.model,
+      apiKey: values["api-key"] ?? io.env.BLUEBOOKIFY_API_KEY,
+      baseURL: values["base-url"],
+      rules: values.rules !== undefined ? await io.readFile(values.rules) : undefined,
+      style: values.style as StyleName | undefined,
+      italicStyle: values["italic-style"] as ItalicStyle | undefined,
+      batchSize: values["batch-size"] !== undefined ? Number(values["batch-size"]) : undefined,
+      concurrency: values.concurrency !== undefined ? Number(values.concurrency) : undefined,
+      cache: values.cache !== undefined ? createFileCache(values.cache) : undefined,
+    };
+
+    let changed = false;
+    for (const input of inputs) {
+      const name = input === "-" ? "<stdin>" : input;
+      const text = input === "-" ? await io.readStdin() : await io.readFile(input);
+
+      if (values.estimate) {
+        const plan = estimate(text, options);
+        io.stdout(
+          `${name}: ${plan.citations} citation(s), ${plan.batches.length} batch(es), ~${plan.promptTokens} prompt tokens\n`
+        );
+        continue;
+      }
+
+      const result: BluebookifyResult = values.offline
+        ? bluebookifyOffline(text, { style: options.style })
+        : await bluebookify(text, options);
+
+      for (const w of result.warnings) {
+        io.stderr(`${name}:${w.position}: warning: ${w.message}\n`);
+      }
+      for (const w of result.responseWarnings) {
+        io.stderr(`${name}: warning: ${w.message}\n`);
+      }
+      for (const r of result.rejected) {
+        io.stderr(`${name}:${r.position}: rejected "${r.replacement}": ${r.reasons.join("; ")}\n`);
+      }
+
+      if (!result.unchanged) {
+        changed = true;
+        if (values.check) {
+          io.stderr(`${name}: ${result.corrections.length} citation(s) would change\n`);
+        }
+      }
+
+      if (values.diff) {
+        io.stdout(unifiedDiff(text, result.text, `a/${name}`, `b/${name}`));
+      }
+      if (values.write && !values.check) {
+        if (!result.unchanged) {
+          await io.writeFile(input, result.text);
+        }
+      } else if (!values.diff && !values.check) {
+        io.stdout(result.text);
+      }
+    }
+
+    return values.check && changed ? 1 : 0;
+  } catch (err) {
+    io.stderr(`bluebookify: ${(err as Error).message}\n`);
+    return 2;
+  }
+}
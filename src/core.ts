@@ -1,8 +1,42 @@
 import { resolveLlm } from "@lexstyle/llm-client";
-import type { BluebookifyOptions, BluebookifyResult, CitationCorrection } from "./types.js";
-import { extractCitations } from "./extractor.js";
+import type {
+  Antecedent,
+  BluebookifyDocumentResult,
+  BluebookifyOfflineOptions,
+  BluebookifyOptions,
+  BatchEstimate,
+  BluebookifyResult,
+  CachedCorrection,
+  CacheStats,
+  CitationContext,
+  CitationCorrection,
+  CitationDocument,
+  CitationHistory,
+  CitationWarning,
+  CorrectionProposal,
+  Estimate,
+  EstimateOptions,
+  LlmFunction,
+  Message,
+  PromptOptions,
+  ProposeResult,
+  RejectedCorrection,
+  ResponseWarning,
+  ResponseWarningCode,
+  RetryStats,
+  StyleProfile,
+} from "./types.js";
+import { cacheKey } from "./cache.js";
+import { checkCourts } from "./courts.js";
+import { extractCitations, extractDocumentCitations } from "./extractor.js";
+import { verifyCorrection } from "./guard.js";
+import { analyzeHistory } from "./history.js";
+import { ITALIC_STYLES, formatItalics } from "./italics.js";
+import { normalizeCitation } from "./normalizer.js";
+import { stripSignal } from "./parser.js";
 import { buildMessages } from "./prompt.js";
-import { applyCorrections, parseResponse } from "./replacer.js";
+import { applyCorrections, contextSnippet, parseCorrections } from "./replacer.js";
+import { resolveStyle } from "./styles.js";
 
 /** Validate that a value is a non-negative integer, optionally requiring >= 1. */
 function requireInt(value: number, name: string, min: number): void {
@@ -12,32 +46,235 @@ function requireInt(value: number, name: string, min: number): void {
 }
 
 /**
- * Validate that a batch response contains exactly the expected IDs.
- * Catches cross-batch ID leakage and missing corrections early.
+ * Thrown when a run is cancelled through its `signal`. The signal's reason
+ * is kept as `cause`.
  */
-function validateBatchIds(corrections: readonly CitationCorrection[], expectedIds: ReadonlySet<number>): void {
-  for (const { id } of corrections) {
-    if (!expectedIds.has(id)) {
-      throw new Error(`LLM returned unexpected id ${id} (not in this batch)`);
-    }
+export class BluebookifyAbortError extends Error {
+  override readonly name = "AbortError";
+
+  constructor(reason?: unknown) {
+    super("bluebookify was aborted", { cause: reason });
+  }
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new BluebookifyAbortError(signal.reason);
   }
-  for (const id of expectedIds) {
-    if (!corrections.some((c) => c.id === id)) {
-      throw new Error(`LLM missing correction for id ${id} in batch`);
+}
+
+/** Settle with `promise`, or reject with BluebookifyAbortError as soon as `signal` aborts */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new BluebookifyAbortError(signal.reason));
+    if (signal.aborted) {
+      onAbort();
+      return;
     }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/** Options shared by every batch of one run */
+interface BatchSettings {
+  llmFn: (messages: Message[]) => Promise<string>;
+  rules: string | undefined;
+  promptOptions: PromptOptions;
+  maxRetries: number;
+}
+
+/** Corrections for one batch (as the LLM wrote them), plus what it took to get them */
+interface BatchResult {
+  corrections: CitationCorrection[];
+  responseWarnings: ResponseWarning[];
+  retries: RetryStats;
+}
+
+/**
+ * Correct one batch, repairing bad responses instead of aborting.
+ *
+ * - A response that cannot be parsed is re-asked with the error explained.
+ * - Ids the response leaves out are sent again in a follow-up request with
+ *   only the missing contexts, and the answers are merged.
+ * - Ids outside the batch, and repeats of an id already answered, are dropped
+ *   with a warning.
+ *
+ * Parse retries and follow-ups share one budget of `maxRetries` per batch;
+ * once it is spent the last error is thrown.
+ */
+async function correctBatch(batch: readonly CitationContext[], index: number, settings: BatchSettings): Promise<BatchResult> {
+  const { llmFn, rules, promptOptions, maxRetries } = settings;
+  const batchIds = new Set(batch.map((ctx) => ctx.id));
+  const answers = new Map<number, CitationCorrection>();
+  const responseWarnings: ResponseWarning[] = [];
+  const retries: RetryStats = { parse: 0, missing: 0 };
+  const warn = (code: ResponseWarningCode, id: number, message: string) => {
+    responseWarnings.push({ code, id, batch: index, message });
+  };
+
+  let messages = buildMessages(batch, rules, promptOptions);
+  for (;;) {
+    const response = await llmFn(messages);
+
+    let corrections: CitationCorrection[];
+    try {
+      corrections = parseCorrections(response);
+    } catch (err) {
+      if (retries.parse + retries.missing >= maxRetries) throw err;
+      retries.parse++;
+      messages = [
+        ...messages,
+        { role: "assistant", content: response },
+        {
+          role: "user",
+          content: `Your response could not be used: ${(err as Error).message}\nReply again with only the JSON array of corrections for the same citations.`,
+        },
+      ];
+      continue;
+    }
+
+    for (const c of corrections) {
+      if (!batchIds.has(c.id)) {
+        warn("unexpected-id", c.id, `LLM returned unexpected id ${c.id} (not in this batch); ignored`);
+      } else if (answers.has(c.id)) {
+        warn("duplicate-id", c.id, `LLM returned id ${c.id} more than once; kept the first correction`);
+      } else {
+        answers.set(c.id, c);
+      }
+    }
+
+    const missing = batch.filter((ctx) => !answers.has(ctx.id));
+    if (missing.length === 0) break;
+    if (retries.parse + retries.missing >= maxRetries) {
+      throw new Error(`LLM missing correction for id ${missing[0].id} in batch`);
+    }
+    retries.missing++;
+    messages = buildMessages(missing, rules, promptOptions);
   }
+
+  const corrections = batch.map((ctx) => answers.get(ctx.id)!);
+  return { corrections, responseWarnings, retries };
 }
 
 /**
- * Correct Bluebook citations in text using an LLM.
+ * Run `count` tasks with at most `limit` in flight, returning results in
+ * task order.
  *
- * Architecture: extract citations -> batch LLM calls -> replace.
- * Only the citation contexts (not the full document) are sent to the LLM.
+ * After the first failure no further task is started; tasks already in
+ * flight are allowed to settle before the error is rethrown, so no work is
+ * left running once this returns.
  */
-export async function bluebookify(
-  text: string,
+async function runLimited<T>(count: number, limit: number, task: (index: number) => Promise<T>): Promise<T[]> {
+  const results = new Array<T>(count);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && next < count) {
+      const index = next++;
+      try {
+        results[index] = await task(index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
+
+/**
+ * Build the document-wide registry of full citations: context id -> canonical
+ * (normalized) full citation text, without its signal so the LLM does not
+ * carry "See" into the short form.
+ */
+function buildRegistry(contexts: readonly CitationContext[]): Map<number, string> {
+  const registry = new Map<number, string>();
+  for (const ctx of contexts) {
+    const kind = ctx.parsed?.kind;
+    if (kind === "case" || kind === "unreported" || kind === "statute" || kind === "string") {
+      registry.set(ctx.id, ctx.parsed?.signal !== undefined ? stripSignal(ctx.original) : ctx.original);
+    }
+  }
+  return registry;
+}
+
+/** Citations as the LLM will see them, plus the document's citation history */
+interface PreparedContexts {
+  normalized: CitationContext[];
+  history: CitationHistory;
+  antecedents: Map<number, Antecedent>;
+  /** Citation-history and court warnings */
+  warnings: CitationWarning[];
+}
+
+/** Citation-history and court-parenthetical warnings, in citation order */
+function citationWarnings(
+  history: CitationHistory,
+  contexts: readonly CitationContext[],
+  style: StyleProfile
+): CitationWarning[] {
+  return [...history.warnings, ...checkCourts(contexts, style)].sort((a, b) => a.citationId - b.citationId);
+}
+
+function prepareContexts(
+  contexts: readonly CitationContext[],
+  style: StyleProfile,
+  footnoteCount?: number
+): PreparedContexts {
+  // Fix mechanical errors first so the LLM only sees the remaining problems
+  const normalized = contexts.map((ctx) => ({ ...ctx, original: normalizeCitation(ctx.original, style) }));
+
+  // Show the LLM the full citation each short form refers to, wherever it appeared
+  const history = analyzeHistory(contexts, footnoteCount);
+  const registry = buildRegistry(normalized);
+  const antecedents = new Map<number, Antecedent>();
+  for (const [id, target] of history.antecedents) {
+    const citation = registry.get(target);
+    if (citation !== undefined) {
+      antecedents.set(id, { id: target, citation });
+    }
+  }
+
+  return { normalized, history, antecedents, warnings: citationWarnings(history, contexts, style) };
+}
+
+function chunk<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/** Rough prompt size: about four characters per token for English text */
+function estimateTokens(messages: readonly Message[]): number {
+  return Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+}
+
+/** Every extracted citation with the correction the pipeline chose for it */
+interface PipelineResult {
+  contexts: CitationContext[];
+  corrections: CitationCorrection[];
+  warnings: CitationWarning[];
+  responseWarnings: ResponseWarning[];
+  retries: RetryStats;
+  cache: CacheStats;
+  rejected: RejectedCorrection[];
+}
+
+/**
+ * Run the full pipeline (extract -> normalize -> batch LLM calls) without
+ * touching the text.
+ */
+async function correctCitations(
+  input: string | CitationDocument,
   options?: BluebookifyOptions
-): Promise<BluebookifyResult> {
+): Promise<PipelineResult> {
   if (!options || typeof options !== "object") {
     throw new Error("bluebookify requires an options object with `apiKey` + `model`, `apiKey` + `provider`, or `llm`");
   }
@@ -48,34 +285,334 @@ export async function bluebookify(
   const contextSize = options.contextSize ?? 100;
   requireInt(contextSize, "contextSize", 0);
 
-  const llmFn = resolveLlm(options, "bluebookify");
+  const concurrency = options.concurrency ?? 1;
+  requireInt(concurrency, "concurrency", 1);
+
+  const maxRetries = options.maxRetries ?? 2;
+  requireInt(maxRetries, "maxRetries", 0);
+
+  const italicStyle = options.italicStyle ?? "markdown";
+  if (!ITALIC_STYLES.includes(italicStyle)) {
+    throw new Error(`Invalid italicStyle: ${italicStyle}. Must be one of ${ITALIC_STYLES.join(", ")}.`);
+  }
+
+  const style = resolveStyle(options.style);
+
+  const { cache, signal, onProgress } = options;
+  throwIfAborted(signal);
+
+  // A custom llm function receives the signal; built-in providers are
+  // abandoned (not cancelled) on abort
+  const resolved = resolveLlm(options, "bluebookify");
+  const callLlm: LlmFunction = options.llm ?? resolved;
+  const llmFn = (messages: Message[]) => abortable(callLlm(messages, { signal }), signal);
 
   // Extract all citations
-  const contexts = extractCitations(text, contextSize);
+  const contexts = typeof input === "string"
+    ? extractCitations(input, contextSize, options.recordDocuments)
+    : extractDocumentCitations(input, contextSize, options.recordDocuments);
 
   if (contexts.length === 0) {
-    return { text, corrections: [], unchanged: true };
+    return {
+      contexts,
+      corrections: [],
+      warnings: [],
+      responseWarnings: [],
+      retries: { parse: 0, missing: 0 },
+      cache: { hits: 0, misses: 0 },
+      rejected: [],
+    };
   }
 
-  // Chunk into batches and process sequentially
-  const allCorrections: CitationCorrection[] = [];
+  const footnoteCount = typeof input === "string" ? undefined : input.footnotes.length;
+  const { normalized, antecedents, warnings } = prepareContexts(contexts, style, footnoteCount);
 
-  for (let i = 0; i < contexts.length; i += batchSize) {
-    const batch = contexts.slice(i, i + batchSize);
-    const messages = buildMessages(batch, options.rules);
-    const response = await llmFn(messages);
-    const corrections = parseResponse(response);
+  // Answer what we can from the cache; only the rest goes to the LLM
+  const answers = new Map<number, CachedCorrection>();
+  const keys = new Map<number, string>();
+  const pending: CitationContext[] = [];
+  for (const ctx of normalized) {
+    if (!cache) {
+      pending.push(ctx);
+      continue;
+    }
+    const key = cacheKey({
+      citation: ctx.original,
+      before: ctx.before,
+      after: ctx.after,
+      antecedent: antecedents.get(ctx.id)?.citation,
+      footnote: ctx.footnote,
+      rules: options.rules,
+      model: options.llm ? "" : options.model ?? options.provider ?? "",
+      reorderStringCitations: options.reorderStringCitations ?? false,
+      explain: options.explain ?? false,
+      style: JSON.stringify(style),
+    });
+    const cached = await cache.get(key);
+    if (cached !== undefined) {
+      answers.set(ctx.id, cached);
+    } else {
+      keys.set(ctx.id, key);
+      pending.push(ctx);
+    }
+  }
+
+  // Chunk into batches and run up to `concurrency` of them at once
+  const batches = chunk(pending, batchSize);
+
+  const settings: BatchSettings = {
+    llmFn,
+    rules: options.rules,
+    promptOptions: { reorderStringCitations: options.reorderStringCitations, antecedents, explain: options.explain, style },
+    maxRetries,
+  };
+  let batchesDone = 0;
+  let citationsDone = normalized.length - pending.length;
+  const results = await runLimited(batches.length, concurrency, async (index) => {
+    throwIfAborted(signal);
+    const result = await correctBatch(batches[index], index, settings);
+    if (cache) {
+      await Promise.all(
+        result.corrections.map((c) =>
+          cache.set(keys.get(c.id)!, { citation: c.citation, rule: c.rule, explanation: c.explanation })
+        )
+      );
+    }
+    batchesDone++;
+    citationsDone += batches[index].length;
+    onProgress?.({ batchesDone, totalBatches: batches.length, citationsDone, totalCitations: normalized.length });
+    return result;
+  });
 
-    validateBatchIds(corrections, new Set(batch.map((ctx) => ctx.id)));
-    allCorrections.push(...corrections);
+  for (const { corrections } of results) {
+    for (const c of corrections) answers.set(c.id, c);
   }
 
+  // The LLM marks italics with asterisks (or echoes the input's markup);
+  // rewrite into the requested style. A correction that then equals the
+  // normalized form is the normalizer's work.
+  //
+  // Unless the caller opts in, a correction that changes what the citation
+  // says (a number, a party) rather than how it says it is rejected, and
+  // the citation keeps only the normalizer's fixes.
+  const rejected: RejectedCorrection[] = [];
+  const allCorrections = normalized.map((ctx, i): CitationCorrection => {
+    const { citation: raw, rule, explanation } = answers.get(ctx.id)!;
+    const citation = formatItalics(raw, italicStyle);
+    if (citation === ctx.original) {
+      return { id: ctx.id, citation, source: "rule" };
+    }
+    const reasons = options.allowSubstantiveChanges ? [] : verifyCorrection(ctx.original, citation);
+    if (reasons.length > 0) {
+      rejected.push({
+        id: ctx.id,
+        position: ctx.start,
+        original: contexts[i].original,
+        replacement: citation,
+        reasons,
+        ...(ctx.footnote !== undefined && { footnote: ctx.footnote }),
+      });
+      return { id: ctx.id, citation: ctx.original, source: "rule" };
+    }
+    return { id: ctx.id, citation, source: "llm", rule, explanation };
+  });
+
+  // Merge in batch order, whatever order the batches finished in
+  const responseWarnings = results.flatMap((r) => r.responseWarnings);
+  const retries: RetryStats = {
+    parse: results.reduce((sum, r) => sum + r.retries.parse, 0),
+    missing: results.reduce((sum, r) => sum + r.retries.missing, 0),
+  };
+  const cacheStats: CacheStats = { hits: normalized.length - pending.length, misses: cache ? pending.length : 0 };
+
+  return {
+    contexts,
+    corrections: allCorrections,
+    warnings,
+    responseWarnings,
+    retries,
+    cache: cacheStats,
+    rejected,
+  };
+}
+
+/**
+ * Correct Bluebook citations in text using an LLM.
+ *
+ * Architecture: extract citations -> batch LLM calls -> replace.
+ * Only the citation contexts (not the full document) are sent to the LLM,
+ * plus, for each short form, the full citation it refers to.
+ */
+export async function bluebookify(
+  text: string,
+  options?: BluebookifyOptions
+): Promise<BluebookifyResult> {
+  const { contexts, corrections, ...report } = await correctCitations(text, options);
+
   // Apply all corrections
-  const { text: correctedText, appliedCorrections } = applyCorrections(text, contexts, allCorrections);
+  const { text: correctedText, appliedCorrections } = applyCorrections(text, contexts, corrections);
+
+  return {
+    text: correctedText,
+    corrections: appliedCorrections,
+    unchanged: appliedCorrections.length === 0,
+    ...report,
+  };
+}
+
+/**
+ * Correct citations in a document with numbered footnotes.
+ *
+ * Runs the same pipeline as bluebookify() over the body and every footnote
+ * at once, so short forms and Id. resolve across footnotes, the LLM sees
+ * which footnote each citation is in, and the history warnings include the
+ * footnote rules (Id. across footnotes, supra notes, the five-footnote
+ * rule). Corrections are applied to each part separately; a correction's
+ * `footnote` says which one its position refers to.
+ */
+export async function bluebookifyDocument(
+  document: CitationDocument,
+  options?: BluebookifyOptions
+): Promise<BluebookifyDocumentResult> {
+  if (
+    !document ||
+    typeof document.body !== "string" ||
+    !Array.isArray(document.footnotes) ||
+    !document.footnotes.every((f) => typeof f === "string")
+  ) {
+    throw new Error("bluebookifyDocument requires a document with a `body` string and a `footnotes` array of strings");
+  }
+
+  const { contexts, corrections, ...report } = await correctCitations(document, options);
+
+  const parts = [document.body, ...document.footnotes].map((text, index) => {
+    const partContexts = contexts.filter((ctx) => (ctx.footnote ?? 0) === index);
+    const ids = new Set(partContexts.map((ctx) => ctx.id));
+    const { text: correctedText, appliedCorrections } = applyCorrections(
+      text,
+      partContexts,
+      corrections.filter((c) => ids.has(c.id))
+    );
+    return {
+      text: correctedText,
+      corrections: index > 0 ? appliedCorrections.map((c) => ({ ...c, footnote: index })) : appliedCorrections,
+    };
+  });
+
+  const [body, ...footnotes] = parts.map((part) => part.text);
+  const appliedCorrections = parts.flatMap((part) => part.corrections);
+
+  return {
+    document: { body, footnotes },
+    corrections: appliedCorrections,
+    unchanged: appliedCorrections.length === 0,
+    ...report,
+  };
+}
+
+/**
+ * Propose corrections without applying them.
+ *
+ * Runs the same pipeline as bluebookify() but leaves the text untouched.
+ * Each proposal carries the id of the citation it changes; ids are assigned
+ * in document order, so the same text always yields the same ids. Pass the
+ * ids a reviewer accepts to applySelected().
+ */
+export async function proposeCorrections(
+  text: string,
+  options?: BluebookifyOptions
+): Promise<ProposeResult> {
+  const { contexts, corrections, ...report } = await correctCitations(text, options);
+
+  const byId = new Map(corrections.map((c) => [c.id, c]));
+  const proposals: CorrectionProposal[] = [];
+  for (const ctx of contexts) {
+    const { citation: replacement, source = "llm", rule, explanation } = byId.get(ctx.id)!;
+    if (replacement === ctx.original) continue;
+    proposals.push({
+      id: ctx.id,
+      position: ctx.start,
+      original: ctx.original,
+      replacement,
+      context: contextSnippet(ctx, replacement),
+      source,
+      ...(rule !== undefined && { rule }),
+      ...(explanation !== undefined && { explanation }),
+    });
+  }
+
+  return { proposals, ...report };
+}
+
+/**
+ * Plan a run without calling the LLM.
+ *
+ * Extracts citations and builds the messages for every batch exactly as
+ * bluebookify() would, so callers can see what it will cost and audit what
+ * would leave the machine. Token counts are approximate (~4 characters per
+ * token); a cache, if any, is not consulted.
+ */
+export function estimate(text: string, options: EstimateOptions = {}): Estimate {
+  const batchSize = options.batchSize ?? 20;
+  requireInt(batchSize, "batchSize", 1);
+
+  const contextSize = options.contextSize ?? 100;
+  requireInt(contextSize, "contextSize", 0);
+
+  const style = resolveStyle(options.style);
+
+  const contexts = extractCitations(text, contextSize, options.recordDocuments);
+  const { normalized, antecedents } = prepareContexts(contexts, style);
+
+  const batches = chunk(normalized, batchSize).map((batch): BatchEstimate => {
+    const messages = buildMessages(batch, options.rules, {
+      reorderStringCitations: options.reorderStringCitations,
+      antecedents,
+      explain: options.explain,
+      style,
+    });
+    return { citationIds: batch.map((ctx) => ctx.id), messages, promptTokens: estimateTokens(messages) };
+  });
+
+  return {
+    citations: contexts.length,
+    batches,
+    promptTokens: batches.reduce((sum, b) => sum + b.promptTokens, 0),
+  };
+}
+
+/**
+ * Apply only the deterministic normalizer, without an LLM.
+ *
+ * Fixes mechanical errors ("vs.", "F. 3d", "US", "S.Ct.", "§1983", "9th Circuit") in every
+ * extracted citation. Needs no `apiKey` or `llm`.
+ */
+export function bluebookifyOffline(
+  text: string,
+  options: BluebookifyOfflineOptions = {}
+): BluebookifyResult {
+  const contextSize = options.contextSize ?? 100;
+  requireInt(contextSize, "contextSize", 0);
+
+  const style = resolveStyle(options.style);
+
+  const contexts = extractCitations(text, contextSize, options.recordDocuments);
+  const corrections: CitationCorrection[] = contexts.map((ctx) => ({
+    id: ctx.id,
+    citation: normalizeCitation(ctx.original, style),
+    source: "rule",
+  }));
+
+  const { text: correctedText, appliedCorrections } = applyCorrections(text, contexts, corrections);
 
   return {
     text: correctedText,
     corrections: appliedCorrections,
     unchanged: appliedCorrections.length === 0,
+    warnings: citationWarnings(analyzeHistory(contexts), contexts, style),
+    responseWarnings: [],
+    retries: { parse: 0, missing: 0 },
+    cache: { hits: 0, misses: 0 },
+    rejected: [],
   };
 }
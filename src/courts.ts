@@ -0,0 +1,303 @@
+/**
+ * Court abbreviation table (Bluebook T1/T7-style).
+ *
+ * The normalizer canonicalizes the court in a case parenthetical against
+ * this table ("9th Circuit" -> "9th Cir.", "S.D.N.Y" -> "S.D.N.Y.",
+ * "N.D. Cal" -> "N.D. Cal."), and checkCourts() flags courts it does not
+ * know and citations to reporters that need a court but name none. To
+ * support a new court, add a row here.
+ */
+
+import type { CitationContext, CitationWarning, ParsedCitation, StyleProfile } from "./types.js";
+import { REPORTERS } from "./reporters.js";
+import { STYLES } from "./styles.js";
+
+/** Federal or state court system */
+export type CourtSystem = "federal" | "state";
+
+/** A single court */
+export interface Court {
+  /** Canonical Bluebook abbreviation, e.g. "S.D.N.Y." */
+  abbreviation: string;
+  /** Full court name */
+  name: string;
+  system: CourtSystem;
+  /** Common non-canonical spellings that period and spacing tolerance alone don't cover */
+  variants?: readonly string[];
+}
+
+const CIRCUITS: readonly (readonly [ordinal: string, name: string, variants?: readonly string[]])[] = [
+  ["1st", "First"],
+  ["2d", "Second", ["2nd"]],
+  ["3d", "Third", ["3rd"]],
+  ["4th", "Fourth"],
+  ["5th", "Fifth"],
+  ["6th", "Sixth"],
+  ["7th", "Seventh"],
+  ["8th", "Eighth"],
+  ["9th", "Ninth"],
+  ["10th", "Tenth"],
+  ["11th", "Eleventh"],
+];
+
+/**
+ * States (T10 abbreviations) with their federal districts and, where it is
+ * not "Supreme Court of <State>", the name of their highest court. "D" is a
+ * state's only district; otherwise N, S, E, W, M, C name the divisions.
+ */
+const STATES: readonly (readonly [abbreviation: string, name: string, districts: string, highestCourt?: string])[] = [
+  ["Ala.", "Alabama", "N M S"],
+  ["Alaska", "Alaska", "D"],
+  ["Ariz.", "Arizona", "D"],
+  ["Ark.", "Arkansas", "E W"],
+  ["Cal.", "California", "N E C S"],
+  ["Colo.", "Colorado", "D"],
+  ["Conn.", "Connecticut", "D"],
+  ["Del.", "Delaware", "D"],
+  ["Fla.", "Florida", "N M S"],
+  ["Ga.", "Georgia", "N M S"],
+  ["Haw.", "Hawaii", "D"],
+  ["Idaho", "Idaho", "D"],
+  ["Ill.", "Illinois", "N C S"],
+  ["Ind.", "Indiana", "N S"],
+  ["Iowa", "Iowa", "N S"],
+  ["Kan.", "Kansas", "D"],
+  ["Ky.", "Kentucky", "E W"],
+  ["La.", "Louisiana", "E M W"],
+  ["Me.", "Maine", "D", "Supreme Judicial Court of Maine"],
+  ["Md.", "Maryland", "D"],
+  ["Mass.", "Massachusetts", "D", "Supreme Judicial Court of Massachusetts"],
+  ["Mich.", "Michigan", "E W"],
+  ["Minn.", "Minnesota", "D"],
+  ["Miss.", "Mississippi", "N S"],
+  ["Mo.", "Missouri", "E W"],
+  ["Mont.", "Montana", "D"],
+  ["Neb.", "Nebraska", "D"],
+  ["Nev.", "Nevada", "D"],
+  ["N.H.", "New Hampshire", "D"],
+  ["N.J.", "New Jersey", "D"],
+  ["N.M.", "New Mexico", "D"],
+  ["N.Y.", "New York", "N E S W", "New York Court of Appeals"],
+  ["N.C.", "North Carolina", "E M W"],
+  ["N.D.", "North Dakota", "D"],
+  ["Ohio", "Ohio", "N S"],
+  ["Okla.", "Oklahoma", "N E W"],
+  ["Or.", "Oregon", "D"],
+  ["Pa.", "Pennsylvania", "E M W"],
+  ["R.I.", "Rhode Island", "D"],
+  ["S.C.", "South Carolina", "D"],
+  ["S.D.", "South Dakota", "D"],
+  ["Tenn.", "Tennessee", "E M W"],
+  ["Tex.", "Texas", "N E S W"],
+  ["Utah", "Utah", "D"],
+  ["Vt.", "Vermont", "D"],
+  ["Va.", "Virginia", "E W"],
+  ["Wash.", "Washington", "E W"],
+  ["W. Va.", "West Virginia", "N S", "Supreme Court of Appeals of West Virginia"],
+  ["Wis.", "Wisconsin", "E W"],
+  ["Wyo.", "Wyoming", "D"],
+];
+
+const DIVISIONS: Readonly<Record<string, string>> = {
+  N: "Northern",
+  S: "Southern",
+  E: "Eastern",
+  W: "Western",
+  M: "Middle",
+  C: "Central",
+};
+
+/** "S.D." + "N.Y." -> "S.D.N.Y."; "N.D." + "Cal." -> "N.D. Cal." (closed up between single capitals, Rule 6.1(a)) */
+function districtAbbreviation(prefix: string, state: string): string {
+  return /^(?:[A-Z]\.)+$/.test(state) ? `${prefix}${state}` : `${prefix} ${state}`;
+}
+
+const FEDERAL_COURTS: readonly Court[] = [
+  { abbreviation: "U.S.", name: "Supreme Court of the United States", system: "federal" },
+  ...CIRCUITS.map(([ordinal, name, variants = []]): Court => ({
+    abbreviation: `${ordinal} Cir.`,
+    name: `United States Court of Appeals for the ${name} Circuit`,
+    system: "federal",
+    variants: [`${ordinal} Circuit`, `${name} Circuit`, ...variants.flatMap((v) => [`${v} Cir.`, `${v} Circuit`])],
+  })),
+  {
+    abbreviation: "D.C. Cir.",
+    name: "United States Court of Appeals for the District of Columbia Circuit",
+    system: "federal",
+    variants: ["D.C. Circuit"],
+  },
+  {
+    abbreviation: "Fed. Cir.",
+    name: "United States Court of Appeals for the Federal Circuit",
+    system: "federal",
+    variants: ["Federal Circuit"],
+  },
+  ...STATES.flatMap(([state, name, districts]) =>
+    districts.split(" ").map(
+      (d): Court =>
+        d === "D"
+          ? {
+              abbreviation: districtAbbreviation("D.", state),
+              name: `United States District Court for the District of ${name}`,
+              system: "federal",
+            }
+          : {
+              abbreviation: districtAbbreviation(`${d}.D.`, state),
+              name: `United States District Court for the ${DIVISIONS[d]} District of ${name}`,
+              system: "federal",
+            }
+    )
+  ),
+  { abbreviation: "D.D.C.", name: "United States District Court for the District of Columbia", system: "federal" },
+  { abbreviation: "D.P.R.", name: "United States District Court for the District of Puerto Rico", system: "federal" },
+  { abbreviation: "Fed. Cl.", name: "United States Court of Federal Claims", system: "federal" },
+  { abbreviation: "Ct. Int'l Trade", name: "United States Court of International Trade", system: "federal" },
+  { abbreviation: "T.C.", name: "United States Tax Court", system: "federal" },
+  { abbreviation: "C.A.A.F.", name: "United States Court of Appeals for the Armed Forces", system: "federal" },
+  { abbreviation: "Vet. App.", name: "United States Court of Appeals for Veterans Claims", system: "federal" },
+  { abbreviation: "J.P.M.L.", name: "Judicial Panel on Multidistrict Litigation", system: "federal" },
+  ...["1st", "6th", "8th", "9th", "10th"].map(
+    (ordinal): Court => ({
+      abbreviation: `B.A.P. ${ordinal} Cir.`,
+      name: `Bankruptcy Appellate Panel for the ${ordinal} Circuit`,
+      system: "federal",
+    })
+  ),
+];
+
+// Bankruptcy courts sit in every district: "Bankr. S.D.N.Y."
+const BANKRUPTCY_COURTS: readonly Court[] = FEDERAL_COURTS.filter((c) =>
+  c.name.startsWith("United States District Court")
+).map((c) => ({
+  abbreviation: `Bankr. ${c.abbreviation}`,
+  name: c.name.replace("District Court", "Bankruptcy Court"),
+  system: "federal",
+}));
+
+// Each state's highest court, then the intermediate and specialized courts most often cited
+const STATE_COURTS: readonly Court[] = [
+  { abbreviation: "D.C.", name: "District of Columbia Court of Appeals", system: "state" },
+  ...STATES.map(
+    ([abbreviation, name, , highestCourt]): Court => ({
+      abbreviation,
+      name: highestCourt ?? `Supreme Court of ${name}`,
+      system: "state",
+    })
+  ),
+  { abbreviation: "Ariz. Ct. App.", name: "Arizona Court of Appeals", system: "state" },
+  { abbreviation: "Cal. Ct. App.", name: "California Court of Appeal", system: "state" },
+  { abbreviation: "Colo. App.", name: "Colorado Court of Appeals", system: "state" },
+  { abbreviation: "Conn. App. Ct.", name: "Connecticut Appellate Court", system: "state" },
+  { abbreviation: "Del. Ch.", name: "Delaware Court of Chancery", system: "state" },
+  { abbreviation: "Del. Super. Ct.", name: "Delaware Superior Court", system: "state" },
+  { abbreviation: "Fla. Dist. Ct. App.", name: "Florida District Court of Appeal", system: "state" },
+  { abbreviation: "Ga. Ct. App.", name: "Georgia Court of Appeals", system: "state" },
+  { abbreviation: "Ill. App. Ct.", name: "Appellate Court of Illinois", system: "state" },
+  { abbreviation: "Ind. Ct. App.", name: "Indiana Court of Appeals", system: "state" },
+  { abbreviation: "Mass. App. Ct.", name: "Massachusetts Appeals Court", system: "state" },
+  { abbreviation: "Md. Ct. Spec. App.", name: "Maryland Court of Special Appeals", system: "state" },
+  { abbreviation: "Mich. Ct. App.", name: "Michigan Court of Appeals", system: "state" },
+  { abbreviation: "Minn. Ct. App.", name: "Minnesota Court of Appeals", system: "state" },
+  { abbreviation: "Mo. Ct. App.", name: "Missouri Court of Appeals", system: "state" },
+  { abbreviation: "N.C. Ct. App.", name: "North Carolina Court of Appeals", system: "state" },
+  { abbreviation: "N.J. Super. Ct. App. Div.", name: "New Jersey Superior Court, Appellate Division", system: "state" },
+  { abbreviation: "N.Y. App. Div.", name: "New York Supreme Court, Appellate Division", system: "state" },
+  { abbreviation: "N.Y. Sup. Ct.", name: "New York Supreme Court", system: "state" },
+  { abbreviation: "Ohio Ct. App.", name: "Ohio Court of Appeals", system: "state" },
+  { abbreviation: "Okla. Crim. App.", name: "Oklahoma Court of Criminal Appeals", system: "state" },
+  { abbreviation: "Pa. Commw. Ct.", name: "Commonwealth Court of Pennsylvania", system: "state" },
+  { abbreviation: "Pa. Super. Ct.", name: "Superior Court of Pennsylvania", system: "state" },
+  { abbreviation: "Tex. App.", name: "Texas Courts of Appeals", system: "state" },
+  { abbreviation: "Tex. Crim. App.", name: "Texas Court of Criminal Appeals", system: "state" },
+  { abbreviation: "Va. Ct. App.", name: "Court of Appeals of Virginia", system: "state" },
+  { abbreviation: "Wash. Ct. App.", name: "Washington Court of Appeals", system: "state" },
+  { abbreviation: "Wis. Ct. App.", name: "Wisconsin Court of Appeals", system: "state" },
+];
+
+export const COURTS: readonly Court[] = [...FEDERAL_COURTS, ...BANKRUPTCY_COURTS, ...STATE_COURTS];
+
+/** Court spellings compared without periods, spaces, commas or case: "SDNY" = "S.D.N.Y." */
+function courtKey(text: string): string {
+  return text.replace(/[.,\s]/g, "").replace(/’/g, "'").toLowerCase();
+}
+
+const BY_KEY = new Map(
+  COURTS.flatMap((c) => [c.abbreviation, ...(c.variants ?? [])].map((spelling) => [courtKey(spelling), c.abbreviation]))
+);
+
+/**
+ * Return the canonical abbreviation for a court spelling, or undefined if
+ * it is not in the table. Missing or extra periods and spaces are tolerated.
+ */
+export function canonicalCourt(text: string): string | undefined {
+  return BY_KEY.get(courtKey(text));
+}
+
+const COURT_REQUIRED = new Set(REPORTERS.filter((r) => r.courtRequired).map((r) => r.abbreviation));
+
+/** State-only reporter -> its state, e.g. "Cal. Rptr. 3d" -> "Cal." */
+const REPORTER_STATE = new Map(REPORTERS.flatMap((r) => (r.state !== undefined ? [[r.abbreviation, r.state]] : [])));
+
+// An exact date ahead of the year, as in "(2d Cir. Jan. 5, 2020)"
+const TRAILING_DATE_RE = /\s*[A-Z][a-z]{2,4}\.?\s+\d{1,2},?$/;
+
+/**
+ * Check the court in every case citation's parenthetical.
+ *
+ * - A court not in the table, after tolerating period and spacing errors
+ *   the normalizer fixes, is flagged as `unknown-court`. With a reporter of
+ *   a single state's courts the state may be left out: "(Ct. App. 2015)"
+ *   with Cal. Rptr. 3d is "Cal. Ct. App." (Rule 10.4(b)).
+ * - A citation to a reporter that publishes more than one court's decisions
+ *   (F.3d, F. Supp. 2d, the regional reporters) with no court in the
+ *   parenthetical is flagged as `missing-court` (Rule 10.4), unless the
+ *   style leaves that state's courts out (`impliedCourtStates`; the
+ *   California Style Manual does for California cases).
+ *
+ * Members of string citations are checked individually.
+ */
+export function checkCourts(
+  contexts: readonly CitationContext[],
+  style: StyleProfile = STYLES.bluebook
+): CitationWarning[] {
+  const warnings: CitationWarning[] = [];
+
+  const check = (ctx: CitationContext, position: number, parsed: ParsedCitation | undefined) => {
+    if (parsed?.kind !== "case") return;
+    const warn = (code: "unknown-court" | "missing-court", message: string) =>
+      warnings.push({
+        code,
+        citationId: ctx.id,
+        position,
+        ...(ctx.footnote !== undefined && { footnote: ctx.footnote }),
+        message,
+      });
+
+    const state = REPORTER_STATE.get(parsed.reporter);
+    if (parsed.court === undefined) {
+      const implied = state !== undefined && (style.impliedCourtStates ?? []).includes(state);
+      if (COURT_REQUIRED.has(parsed.reporter) && !implied) {
+        warn(
+          "missing-court",
+          `${parsed.caseName} cites ${parsed.reporter}, which reports more than one court; name the court in the parenthetical`
+        );
+      }
+      return;
+    }
+
+    const court = parsed.court.replace(TRAILING_DATE_RE, "");
+    if (canonicalCourt(court) === undefined && (state === undefined || canonicalCourt(`${state} ${court}`) === undefined)) {
+      warn("unknown-court", `Court "${court}" in ${parsed.caseName} is not a recognized court abbreviation`);
+    }
+  };
+
+  for (const ctx of contexts) {
+    if (ctx.members) {
+      for (const member of ctx.members) check(ctx, member.start, member.parsed);
+    } else {
+      check(ctx, ctx.start, ctx.parsed);
+    }
+  }
+
+  return warnings;
+}
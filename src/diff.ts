@@ -0,0 +1,128 @@
+/** One line of a line-level edit script */
+interface LineEdit {
+  type: "equal" | "delete" | "insert";
+  line: string;
+}
+
+/**
+ * Line-level diff (Myers' O(ND) algorithm).
+ *
+ * Corrections touch few lines, so D stays small and this stays fast even on
+ * long briefs.
+ */
+function diffLines(a: readonly string[], b: readonly string[]): LineEdit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const edits: LineEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      edits.push({ type: "insert", line: b[--y] });
+    } else {
+      edits.push({ type: "delete", line: a[--x] });
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Produce a unified diff between two texts.
+ *
+ * Returns "" when the texts are identical.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName = "a",
+  newName = "b",
+  context = 3
+): string {
+  if (oldText === newText) return "";
+
+  const edits = diffLines(oldText.split("\n"), newText.split("\n"));
+
+  // Group changed lines (plus surrounding context) into hunks
+  const hunks: { start: number; end: number }[] = [];
+  edits.forEach((edit, i) => {
+    if (edit.type === "equal") return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(edits.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  const out = [`--- ${oldName}`, `+++ ${newName}`];
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+  for (const { start, end } of hunks) {
+    // Advance line counters over the unchanged stretch before this hunk
+    for (; cursor < start; cursor++) {
+      oldLine++;
+      newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const edit of edits.slice(start, end)) {
+      if (edit.type === "equal") {
+        body.push(` ${edit.line}`);
+        oldCount++;
+        newCount++;
+      } else if (edit.type === "delete") {
+        body.push(`-${edit.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${edit.line}`);
+        newCount++;
+      }
+    }
+
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    out.push(...body);
+    oldLine += oldCount;
+    newLine += newCount;
+    cursor = end;
+  }
+
+  return out.join("\n") + "\n";
+}
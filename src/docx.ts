@@ -0,0 +1,343 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { BluebookifyDocxOptions, BluebookifyDocxResult } from "./types.js";
+import { bluebookify } from "./core.js";
+import { splitItalics, type ItalicSegment } from "./italics.js";
+
+/** Package parts whose text is searched for citations, in reading order */
+const TEXT_PARTS = ["word/document.xml", "word/footnotes.xml", "word/endnotes.xml"];
+
+const PARAGRAPH_RE = /<w:p(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/w:p>/g;
+const RUN_RE = /<w:r(?:\s[^>]*)?(?<!\/)>[\s\S]*?<\/w:r>/g;
+// A run's children: text, then any other element, empty or with content
+const RUN_CHILD_RE = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<(\w+:\w+)(?:\s[^>]*)?\/>|<(\w+:\w+)(?:\s[^>]*)?>[\s\S]*?<\/\3>/g;
+const RPR_RE = /<w:rPr>[\s\S]*?<\/w:rPr>/;
+const ITALIC_ON_RE = /<w:i(?:\s+w:val="(?:true|1|on)")?\s*\/>/;
+
+/** Text a run's child contributes, with the element it came from unless it is <w:t> */
+interface RunChild {
+  text: string;
+  /** The original element, kept as-is when the run is rewritten; absent for <w:t> */
+  xml?: string;
+}
+
+/** A text-bearing run, located by its absolute offsets in the part XML */
+interface Run {
+  part: string;
+  start: number;
+  end: number;
+  /** The run's <w:rPr> element, or "" */
+  rPr: string;
+  children: RunChild[];
+  text: string;
+  italic: boolean;
+}
+
+/** Where one character of the flattened text came from (null for italic markers and separators) */
+type CharSource = { run: Run; offset: number } | null;
+
+/** A pending rewrite of part of a run */
+interface RunEdit {
+  from: number;
+  to: number;
+  /** Replacement runs to insert at `from` (only on the run where the correction starts) */
+  segments: ItalicSegment[];
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#x[0-9a-fA-F]+|#\d+);/g, (_m, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Characters that stand for run elements other than <w:t> */
+const ELEMENT_TEXT: Readonly<Record<string, string>> = {
+  "w:tab": "\t",
+  "w:br": "\n",
+  "w:cr": "\n",
+  "w:noBreakHyphen": "\u2011",
+  "w:softHyphen": "\u00AD",
+};
+
+/** The text a non-<w:t> run element stands for ("" for drawings, field characters, references, ...) */
+function elementText(name: string, xml: string): string {
+  if (name === "w:sym") {
+    // <w:sym w:font="Symbol" w:char="F0A7"/>: a symbol-font character
+    const code = /w:char="([0-9a-fA-F]+)"/.exec(xml)?.[1];
+    return code !== undefined ? String.fromCodePoint(parseInt(code, 16)) : "";
+  }
+  return ELEMENT_TEXT[name] ?? "";
+}
+
+/** Collect the text runs of every paragraph in a part */
+function readParagraphs(part: string, xml: string): Run[][] {
+  const paragraphs: Run[][] = [];
+  for (const p of xml.matchAll(PARAGRAPH_RE)) {
+    const runs: Run[] = [];
+    for (const r of p[0].matchAll(RUN_RE)) {
+      // Skip the <w:r ...> tag itself; its properties are kept separately
+      const inner = r[0].slice(r[0].indexOf(">") + 1, -"</w:r>".length);
+      const children: RunChild[] = [];
+      for (const c of inner.matchAll(RUN_CHILD_RE)) {
+        const name = c[2] ?? c[3];
+        if (c[1] !== undefined) {
+          if (c[1].length > 0) children.push({ text: unescapeXml(c[1]) });
+        } else if (name !== "w:rPr") {
+          children.push({ text: elementText(name, c[0]), xml: c[0] });
+        }
+      }
+      const text = children.map((c) => c.text).join("");
+      if (text.length === 0) continue;
+
+      const rPr = RPR_RE.exec(r[0])?.[0] ?? "";
+      const start = p.index! + r.index!;
+      runs.push({ part, start, end: start + r[0].length, rPr, children, text, italic: ITALIC_ON_RE.test(rPr) });
+    }
+    paragraphs.push(runs);
+  }
+  return paragraphs;
+}
+
+/**
+ * Flatten paragraphs into one string, marking italic spans with asterisks
+ * so the pipeline sees (and preserves) existing italics.
+ */
+function flatten(paragraphs: readonly Run[][]): { text: string; sources: CharSource[] } {
+  let text = "";
+  const sources: CharSource[] = [];
+  const emit = (s: string, source: CharSource) => {
+    text += s;
+    for (let i = 0; i < s.length; i++) sources.push(source);
+  };
+
+  paragraphs.forEach((runs, index) => {
+    if (index > 0) emit("\n\n", null);
+
+    const chars = runs.flatMap((run) =>
+      run.text.split("").map((ch, offset) => ({ ch, italic: run.italic, source: { run, offset } }))
+    );
+
+    let i = 0;
+    while (i < chars.length) {
+      if (!chars[i].italic || /\s/.test(chars[i].ch)) {
+        emit(chars[i].ch, chars[i].source);
+        i++;
+        continue;
+      }
+      // Italic span: trim trailing whitespace so the markers hug the text
+      let j = i;
+      while (j < chars.length && chars[j].italic) j++;
+      while (/\s/.test(chars[j - 1].ch)) j--;
+      emit("*", null);
+      for (let k = i; k < j; k++) emit(chars[k].ch, chars[k].source);
+      emit("*", null);
+      i = j;
+    }
+  });
+
+  return { text, sources };
+}
+
+/** Set or clear italics in a run's properties */
+function withItalic(rPr: string, italic: boolean): string {
+  const base = (rPr || "<w:rPr></w:rPr>").replace(/<w:iCs?(?:\s[^>]*)?\/>/g, "");
+  if (!italic) {
+    return base === "<w:rPr></w:rPr>" ? "" : base;
+  }
+  // <w:i/> must follow rStyle, rFonts, b and bCs in the rPr sequence
+  return base.replace(
+    /^<w:rPr>((?:<w:rStyle[^>]*\/>)?(?:<w:rFonts[^>]*\/>)?(?:<w:b(?:\s[^>]*)?\/>)?(?:<w:bCs(?:\s[^>]*)?\/>)?)/,
+    "<w:rPr>$1<w:i/><w:iCs/>"
+  );
+}
+
+/** Run content for plain text: tabs, breaks and special hyphens become their elements */
+function runBody(text: string): string {
+  return text
+    .split(/(\t|\n|\u2011|\u00AD)/)
+    .filter((piece) => piece.length > 0)
+    .map((piece) => {
+      switch (piece) {
+        case "\t":
+          return "<w:tab/>";
+        case "\n":
+          return "<w:br/>";
+        case "\u2011":
+          return "<w:noBreakHyphen/>";
+        case "\u00AD":
+          return "<w:softHyphen/>";
+        default:
+          return `<w:t xml:space="preserve">${escapeXml(piece)}</w:t>`;
+      }
+    })
+    .join("");
+}
+
+/**
+ * Rebuild a run with its edits applied.
+ *
+ * Text outside the edits keeps the run's formatting, and every element
+ * other than <w:t> outside the edits (page breaks, symbols, references,
+ * drawings) is kept as it was. Inside an edit, elements that stand for
+ * text are replaced with the correction; the others are kept.
+ */
+function rebuildRun(run: Run, edits: readonly RunEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.from - b.from);
+  const runs: { rPr: string; body: string }[] = [];
+  const emit = (rPr: string, body: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.rPr === rPr) {
+      last.body += body;
+    } else {
+      runs.push({ rPr, body });
+    }
+  };
+
+  // Original text not yet written
+  let text = "";
+  const flush = () => {
+    if (text.length > 0) emit(run.rPr, runBody(text));
+    text = "";
+  };
+
+  const insertAt = (offset: number) => {
+    for (const edit of sorted) {
+      if (edit.from !== offset) continue;
+      flush();
+      for (const segment of edit.segments) {
+        emit(withItalic(run.rPr, segment.italic), runBody(segment.text));
+      }
+    }
+  };
+
+  let offset = 0;
+  for (const child of run.children) {
+    if (child.text.length === 0) {
+      flush();
+      emit(run.rPr, child.xml!);
+      continue;
+    }
+    for (const ch of child.text) {
+      insertAt(offset);
+      if (!sorted.some((e) => offset >= e.from && offset < e.to)) {
+        if (child.xml === undefined) {
+          text += ch;
+        } else {
+          flush();
+          emit(run.rPr, child.xml);
+        }
+      }
+      offset += ch.length;
+    }
+  }
+  insertAt(offset);
+  flush();
+
+  return runs.map(({ rPr, body }) => `<w:r>${rPr}${body}</w:r>`).join("");
+}
+
+/**
+ * Correct Bluebook citations in a Word (.docx) document.
+ *
+ * Reads the Office Open XML package locally and sends only citation
+ * contexts to the LLM, exactly like bluebookify(). Citations are found
+ * across formatting runs in the body, footnotes and endnotes, and
+ * corrections are written back as real runs: italics become <w:i/> runs
+ * rather than asterisks, and untouched text keeps its formatting.
+ *
+ * Correction positions refer to the document's extracted text (paragraphs
+ * joined by blank lines, body first, then footnotes and endnotes).
+ */
+export async function bluebookifyDocx(
+  input: Uint8Array | ArrayBuffer,
+  options?: BluebookifyDocxOptions
+): Promise<BluebookifyDocxResult> {
+  if (!options || typeof options !== "object") {
+    throw new Error("bluebookifyDocx requires an options object with `apiKey` + `model`, `apiKey` + `provider`, or `llm`");
+  }
+
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const files = unzipSync(bytes);
+  if (!files["word/document.xml"]) {
+    throw new Error("Invalid DOCX: missing word/document.xml");
+  }
+
+  const xmlByPart = new Map<string, string>();
+  const paragraphs: Run[][] = [];
+  for (const part of TEXT_PARTS) {
+    if (!files[part]) continue;
+    const xml = strFromU8(files[part]);
+    xmlByPart.set(part, xml);
+    paragraphs.push(...readParagraphs(part, xml));
+  }
+
+  const { text, sources } = flatten(paragraphs);
+  const result = await bluebookify(text, { ...options, italicStyle: "markdown" });
+
+  // Translate each correction's span into edits on the runs it covers
+  const edits = new Map<Run, RunEdit[]>();
+  const addEdit = (run: Run, edit: RunEdit) => {
+    const list = edits.get(run) ?? [];
+    list.push(edit);
+    edits.set(run, list);
+  };
+
+  for (const correction of result.corrections) {
+    const covered = sources
+      .slice(correction.position, correction.position + correction.original.length)
+      .filter((s): s is NonNullable<CharSource> => s !== null);
+    if (covered.length === 0) continue;
+
+    const first = covered[0];
+    const last = covered[covered.length - 1];
+    const segments = splitItalics(correction.replacement);
+
+    for (const run of new Set(covered.map((s) => s.run))) {
+      addEdit(run, {
+        from: run === first.run ? first.offset : 0,
+        to: run === last.run ? last.offset + 1 : run.text.length,
+        segments: run === first.run ? segments : [],
+      });
+    }
+  }
+
+  // Rewrite runs back-to-front within each part so offsets stay valid
+  for (const [part, original] of xmlByPart) {
+    let xml = original;
+    const runs = [...edits.keys()].filter((r) => r.part === part).sort((a, b) => b.start - a.start);
+    if (runs.length === 0) continue;
+    for (const run of runs) {
+      xml = xml.slice(0, run.start) + rebuildRun(run, edits.get(run)!) + xml.slice(run.end);
+    }
+    files[part] = strToU8(xml);
+  }
+
+  return {
+    buffer: edits.size > 0 ? zipSync(files) : bytes,
+    corrections: result.corrections,
+    unchanged: result.unchanged,
+    warnings: result.warnings,
+    responseWarnings: result.responseWarnings,
+    retries: result.retries,
+    cache: result.cache,
+    rejected: result.rejected,
+  };
+}
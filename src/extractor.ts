@@ -1,36 +1,178 @@
-import type { CitationContext } from "./types.js";
+import type { CitationContext, CitationDocument, CitationMember } from "./types.js";
+import type { RecordDocument } from "./records.js";
+import { DATABASE_PATTERN, DOCKET_PATTERN, SIGNAL_PATTERN, parseCitation } from "./parser.js";
+import { JOURNAL_PATTERN } from "./journals.js";
+import { CODE_PATTERN, CONSTITUTION_PATTERN } from "./jurisdictions.js";
+import { RECORD_DOCUMENTS, recordRegex } from "./records.js";
+import { REPORTER_PATTERN } from "./reporters.js";
 
 /**
  * Regex matching legal citation patterns (high recall, false positives OK).
  *
  * Targets:
- * - Full case citations: Name v. Name, Volume Reporter Page (Court Year)
- * - Statutory: Title U.S.C. § Number, Title C.F.R. § Number
- * - Short forms with "at": Volume Reporter at Page; Id. at Page
+ * - Full case citations: Name v. Name, Volume Reporter Page (Court Year),
+ *   for any reporter in the T1-style table in reporters.ts, and the
+ *   California Style Manual order: Name (Court Year) Volume Reporter Page
+ * - Unreported decisions: Westlaw and Lexis citations, slip opinions and
+ *   pending cases by docket number, with star-page pincites
+ * - Statutory: Title U.S.C. § Number, Title C.F.R. § Number, state codes
+ *   from the table in jurisdictions.ts, with "§§" lists and ranges and
+ *   "et seq."
+ * - Constitutions (U.S. Const. art. I, § 8, cl. 3), session laws
+ *   (Pub. L. No. 111-148, 124 Stat. 119) and the Federal Register
+ * - Secondary sources: periodicals from the table in journals.ts,
+ *   restatements and uniform acts, books and treatises, and dated URLs
+ * - Record citations from the table in records.ts: "(R. at 12)",
+ *   "(Compl. ¶ 5)", "(Tr. 45:3–12)", "ECF No. 34", "J.A. 101"
+ * - Short forms with "at": Volume Reporter at Page; Name, 2020 WL 1234567, at *Page;
+ *   Name, slip op. at Page; Id. at Page (or *Page)
  * - Id. (standalone short form)
+ * - Supra/infra cross-references and hereinafter designations
+ * - String citations: any of the above separated by semicolons, grouped as one unit
  * - Citation signals: See, Cf., See also, Accord, But see, Compare, E.g.,
  *
  * Order matters: longer/more-specific patterns first to prevent partial matches.
  */
 
-// Case citations: "Name v. Name, 123 Reporter 456" with optional pincite and parenthetical
-const CASE_RE =
-  /[A-Z][A-Za-z'.]+(?:\s+[A-Z][A-Za-z'.]+)*\s+v\.\s+[A-Z][A-Za-z'.]+(?:\s+[A-Z][A-Za-z'.]+)*,?\s+\d+\s+(?:U\.S\.|S\.\s*Ct\.|L\.\s*Ed\.(?:\s*2d)?|F\.(?:2d|3d|4th)|F\.\s*Supp\.(?:\s*(?:2d|3d))?|F\.\s*App'x)\s+\d+(?:,\s*\d+)?(?:\s*\([^)]*\d{4}\))?/g;
+// Optional italic markup around a case name ("*Smith v. Jones*", "<i>Smith</i>",
+// "\textit{Smith}", "{\i Smith}") so already-formatted citations are still extracted
+const ITALIC_OPEN = "(?:\\*|<(?:i|em)>|\\\\(?:textit|emph)\\{|\\{\\\\i )?";
+const ITALIC_CLOSE = "(?:\\*|<\\/(?:i|em)>|\\})?";
 
-// Statutory citations: "42 U.S.C. § 1983" or "29 C.F.R. § 1926.1053"
-const STATUTE_RE =
-  /\d+\s+(?:U\.S\.C\.|C\.F\.R\.)\s*§+\s*[\d]+(?:\.\d+)?(?:\([a-zA-Z0-9]+\))*(?:(?:\u2013|-)[\d]+(?:\.\d+)?)?/g;
+// Pincites after a case's first page: ", 205", ", 205–06", ", 205, 210", ", 205 n.3"
+const CASE_PINS = "(?:,\\s*\\d+(?:[\\u2013-]\\d+)?(?:\\s+nn?\\.\\s*\\d+(?:[\\u2013-]\\d+)?)?)*";
+
+// Case citations: "Name v. Name, 123 Reporter 456" with optional pincites and parenthetical
+// ("vs." and a bare "v" are accepted so the normalizer can fix them; reporter
+// spacing is tolerant for the same reason)
+const CASE_RE = new RegExp(
+  `${ITALIC_OPEN}[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*\\s+(?:v\\.|vs\\.?|v)\\s+[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*${ITALIC_CLOSE},?\\s+\\d+\\s+${REPORTER_PATTERN}\\s+\\d+${CASE_PINS}(?:\\s*\\([^)]*\\d{4}\\))?`,
+  "g"
+);
+
+// California Style Manual case citations, year (and court) after the case name:
+// "People v. Smith (2000) 22 Cal.4th 1, 5", "Smith v. Jones (9th Cir. 2001) 250 F.3d 1"
+const CALIFORNIA_CASE_RE = new RegExp(
+  `${ITALIC_OPEN}[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*\\s+(?:v\\.|vs\\.?|v)\\s+[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*${ITALIC_CLOSE},?\\s*\\([^()]*\\d{4}\\)\\s+\\d+\\s+${REPORTER_PATTERN}\\s+\\d+${CASE_PINS}`,
+  "g"
+);
+
+// Unreported decisions: a docket number and/or a database identifier, or a slip opinion:
+// "Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)",
+// "Smith v. Jones, 2020 U.S. Dist. LEXIS 12345, at *3", "Smith v. Jones, No. 19-1234, slip op. at 5 (2d Cir. 2020)"
+const STAR_PINS = "(?:,\\s*at\\s+\\*\\d+(?:[\\u2013-]\\*?\\d+)?(?:,\\s*\\*\\d+(?:[\\u2013-]\\*?\\d+)?)*)?";
+const SLIP_OPINION = "slip\\s+op\\.(?:\\s+at\\s+\\d+(?:[\\u2013-]\\d+)?)?";
+const UNREPORTED_RE = new RegExp(
+  `${ITALIC_OPEN}[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*\\s+(?:v\\.|vs\\.?|v)\\s+[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*${ITALIC_CLOSE},?\\s+(?:Nos?\\.\\s+${DOCKET_PATTERN}(?:,\\s+(?:${DATABASE_PATTERN}${STAR_PINS}|${SLIP_OPINION}))?|${DATABASE_PATTERN}${STAR_PINS})(?:\\s*\\([^)]*\\d{4}\\))?`,
+  "g"
+);
+
+/**
+ * Section references after a section symbol: one section or a range after
+ * "§", a range or list after "§§", then an optional "et seq.":
+ * "§ 1983", "§§ 1981-1983", "§§ 1981, 1983, and 1985", "§ 2000e et seq."
+ */
+function sectionsPattern(section: string): string {
+  const range = `(?:(?:\\u2013|-)${section})?`;
+  const list = `(?:(?:\\u2013|-)${section}|(?:,\\s*(?:and\\s+)?|\\s+and\\s+)${section})*`;
+  return `(?:§§\\s*${section}${list}|§\\s*${section}${range})(?:\\s+et\\s+seq\\.)?`;
+}
+
+// Federal section numbers: "1983", "2000e", "1926.1053", with subsections "(a)(1)"
+const FEDERAL_SECTION = "\\d+[a-z]*(?:\\.\\d+)?(?:\\([a-zA-Z0-9]+\\))*";
+
+// State section numbers may contain hyphens, colons and slashes: "425.16", "16-5-1", "2C:11-3"
+const STATE_SECTION = "\\d+[A-Za-z]*(?:[.:/-]\\d+[A-Za-z]*)*(?:\\([a-zA-Z0-9]+\\))*";
+
+// Statutory citations: "42 U.S.C. § 1983", "29 C.F.R. § 1926.1053", "42 U.S.C. §§ 1981, 1983"
+const STATUTE_RE = new RegExp(`\\d+\\s+(?:U\\.S\\.C\\.|C\\.F\\.R\\.)\\s*${sectionsPattern(FEDERAL_SECTION)}`, "g");
+
+// State codes from the jurisdiction table: "Cal. Civ. Proc. Code § 425.16 (West 2020)",
+// "18 Pa. Cons. Stat. § 2501", "Del. Code Ann. tit. 8, § 102", "Mass. Gen. Laws ch. 93A, § 2"
+const STATE_CODE_RE = new RegExp(
+  `(?:\\d+\\s+)?\\b${CODE_PATTERN}(?:\\s+Ann\\.)?(?:\\s+(?:tit|ch)\\.\\s+\\w+,)?\\s*${sectionsPattern(STATE_SECTION)}(?:\\s*\\([^)]*\\d{4}\\))?`,
+  "g"
+);
+
+// Constitutions: "U.S. Const. art. I, § 8, cl. 3", "U.S. Const. amend. XIV, § 1", "Cal. Const. art. I, § 7"
+const CONSTITUTION_RE = new RegExp(
+  `\\b${CONSTITUTION_PATTERN}\\s+(?:Const|CONST)\\.\\s+(?:(?:art|amend)\\.\\s+[IVXLC]+|pmbl\\.)(?:,\\s*§\\s*\\d+[a-z]?)?(?:,\\s*cl\\.\\s*\\d+)?`,
+  "g"
+);
+
+// Session laws: "Pub. L. No. 111-148, § 1501, 124 Stat. 119, 242 (2010)"
+const SESSION_LAW_RE =
+  /\bPub\.\s*L\.\s*No\.\s*\d+-\d+(?:,\s*§\s*[\d.]+[a-z]?)?(?:,\s*\d+\s+Stat\.\s+\d+(?:,\s*\d+)?)?(?:\s*\(\d{4}\))?/g;
+
+// Federal Register: "85 Fed. Reg. 12,345, 12,350 (Mar. 3, 2020)"; pages may lack the comma: "85 Fed. Reg. 1234"
+const FEDERAL_REGISTER_RE =
+  /\d+\s+Fed\.\s*Reg\.\s+(?:\d{1,3}(?:,\d{3})+|\d+)(?!\d)(?:,\s+(?:\d{1,3}(?:,\d{3})+|\d+)(?!\d))?(?:\s*\([^)]*\d{4}\))?/g;
+
+// Authors: "John Doe", "Charles Alan Wright & Arthur R. Miller", "Wright & Miller", "Jane Roe et al.".
+// A lone author needs two or more names, so a sentence-opening "Moreover," is not read as one.
+const NAME_WORD = "[A-Z][A-Za-z'.\\u2019-]+";
+const NAME = `${NAME_WORD}(?:\\s+${NAME_WORD}){0,3}`;
+const FULL_NAME = `${NAME_WORD}(?:\\s+${NAME_WORD}){1,3}`;
+const AUTHORS = `(?:${NAME}\\s+(?:&|and)\\s+${NAME}|${FULL_NAME}(?:,\\s+${FULL_NAME})?(?:,?\\s+(?:&|and)\\s+${NAME}|\\s+et\\s+al\\.)?)`;
+
+// A book title in title case, optionally italicized: "Federal Practice and Procedure"
+const BOOK_TITLE = `${ITALIC_OPEN}[A-Z][A-Za-z'\\u2019:-]*(?:\\s+(?:[A-Z][A-Za-z'\\u2019:-]*|of|and|the|in|on|for|to|a|an|&))*${ITALIC_CLOSE}`;
+
+// Publication parenthetical: "(1987)", "(3d ed. 2004)", "(Am. L. Inst. 1965)"
+const YEAR_PAREN = "\\s*\\([^)]*\\d{4}\\)";
+
+// Periodicals: "John Doe, Title, 100 Harv. L. Rev. 1, 5 (1987)"
+const PERIODICAL_RE = new RegExp(
+  `${AUTHORS},\\s+${ITALIC_OPEN}[A-Z][^;()\\n]{0,150}?${ITALIC_CLOSE},\\s+\\d+\\s+${JOURNAL_PATTERN}\\s+\\d+(?:,\\s*\\d+(?:[\\u2013-]\\d+)?)?(?:${YEAR_PAREN})?`,
+  "g"
+);
+
+// Restatements and uniform acts: "Restatement (Second) of Torts § 402A cmt. c (Am. L. Inst. 1965)",
+// "U.C.C. § 2-207 (Am. L. Inst. & Unif. L. Comm'n 2002)", "Unif. Trade Secrets Act § 1"
+const RESTATEMENT_RE = new RegExp(
+  `${ITALIC_OPEN}(?:Restatement(?:\\s+\\((?:First|Second|Third|Fourth)\\))?\\s+of\\s+(?:the\\s+)?${BOOK_TITLE}|U\\.C\\.C\\.|Unif\\.(?:\\s+[A-Z][A-Za-z.'\\u2019]*)+\\s+Act)${ITALIC_CLOSE}\\s*§§?\\s*\\d+[A-Za-z]?(?:[.-]\\d+[A-Za-z]?)*(?:\\([a-z0-9]+\\))*(?:\\s+(?:cmt|illus)\\.\\s+[a-z0-9]+)*(?:${YEAR_PAREN})?`,
+  "g"
+);
+
+// Books and treatises, by section or by page (a page needs the year parenthetical):
+// "5 Wright & Miller, Federal Practice and Procedure § 1216 (3d ed. 2004)",
+// "John Doe, Title of Book 45 (2d ed. 1999)"
+const BOOK_RE = new RegExp(
+  `(?:\\d+\\s+)?${AUTHORS},\\s+${BOOK_TITLE}\\s+(?:§§?\\s*\\d+(?:[.:-]\\d+)*(?:${YEAR_PAREN})?|\\d+(?:[\\u2013-]\\d+)?(?:,\\s*\\d+)?${YEAR_PAREN})`,
+  "g"
+);
+
+// Internet sources with a date: "Jane Roe, Title, Blog (Mar. 3, 2020), https://example.com/post",
+// "https://example.com/page [https://perma.cc/ABCD-1234] (last visited Mar. 3, 2020)"
+const DATE = "[A-Z][a-z]{2,4}\\.?\\s+\\d{1,2},\\s+\\d{4}";
+const URL = "https?:\\/\\/[^\\s<>()\\[\\]]*[^\\s<>()\\[\\].,;:]";
+const PERMA = `(?:\\s+\\[${URL}\\])?`;
+const URL_RE = new RegExp(
+  `(?:${AUTHORS},\\s+${ITALIC_OPEN}[A-Z][^;()\\n]{0,150}?\\s+)?\\(${DATE}(?:,\\s+\\d{1,2}:\\d{2}\\s+[AP]M)?\\),\\s+${URL}${PERMA}|${URL}${PERMA}\\s*\\(last\\s+visited\\s+${DATE}\\)`,
+  "g"
+);
 
 // Short form with reporter: "Smith, 123 F.3d at 456"
-const SHORT_FORM_RE =
-  /[A-Z][A-Za-z'.]+,\s+\d+\s+(?:U\.S\.|S\.\s*Ct\.|L\.\s*Ed\.(?:\s*2d)?|F\.(?:2d|3d|4th)|F\.\s*Supp\.(?:\s*(?:2d|3d))?|F\.\s*App'x)\s+at\s+\d+/g;
+const SHORT_FORM_RE = new RegExp(`${ITALIC_OPEN}[A-Z][A-Za-z'.]+${ITALIC_CLOSE},\\s+\\d+\\s+${REPORTER_PATTERN}\\s+at\\s+\\d+`, "g");
+
+// Short form of an unreported decision: "Smith, 2020 WL 1234567, at *4", "Smith, slip op. at 6"
+const UNREPORTED_SHORT_FORM_RE = new RegExp(
+  `${ITALIC_OPEN}[A-Z][A-Za-z'.]+${ITALIC_CLOSE},\\s+(?:${DATABASE_PATTERN},\\s+at\\s+\\*\\d+(?:[\\u2013-]\\*?\\d+)?|slip\\s+op\\.\\s+at\\s+\\d+(?:[\\u2013-]\\d+)?)`,
+  "g"
+);
+
+// Supra/infra cross-references: "Smith, supra note 12, at 45", "supra Part II", "infra note 30"
+const SUPRA_RE =
+  /(?:[A-Z][A-Za-z'.]+(?:\s+[A-Z][A-Za-z'.]+)*,\s+)?\b(?:[Ss]upra|[Ii]nfra)\s+(?:notes?\s+\d+(?:[\u2013-]\d+)?|Parts?\s+[IVXLC]+(?:\.[A-Z0-9]+)*|Sections?\s+[IVXLC\d]+(?:\.[A-Z0-9]+)*)(?:,\s+at\s+\d+(?:[\u2013-]\d+)?)?/g;
 
-// Id. citations: "Id." or "Id. at 123"
-const ID_RE = /\bId\.(?:\s+at\s+\d+(?:[,\u2013-]\s*\d+)?)?/g;
+// Hereinafter designations: "(hereinafter Restatement)" or "[hereinafter Restatement]"
+const HEREINAFTER_RE = /[[(]hereinafter\s+[^\])]+[\])]/g;
+
+// Id. citations: "Id.", "Id. at 123" or, after a database citation, "Id. at *4"
+const ID_RE = /\bId\.(?:\s+at\s+\*?\d+(?:[,\u2013-]\s*\*?\d+)?)?/g;
 
 // Signals before citations
-const SIGNAL_RE =
-  /\b(?:See\s+also|But\s+see|But\s+cf\.|See,?\s+e\.g\.,|See|Cf\.|Accord,?|Compare|E\.g\.,)\s/g;
+const SIGNAL_RE = new RegExp(`\\b${SIGNAL_PATTERN}\\s`, "g");
 
 interface PatternMatch {
   text: string;
@@ -38,20 +180,57 @@ interface PatternMatch {
   end: number;
 }
 
+/** A top-level citation: a single match, or several forming a string citation */
+interface CitationUnit extends PatternMatch {
+  members: PatternMatch[];
+}
+
+// What may separate two members of a string citation: a semicolon, optionally
+// preceded by explanatory parentheticals belonging to the earlier member
+const STRING_CITE_GAP_RE = /^(?:\s*\([^()]*(?:\([^()]*\)[^()]*)*\))*\s*;\s+$/;
+
 /**
  * Extract all legal citations from text with surrounding context.
  *
  * Returns a CitationContext for every citation occurrence, giving the LLM
  * enough surrounding text to determine the correct Bluebook formatting.
+ * Each context carries the structured `parsed` form of its citation.
+ *
+ * Semicolon-separated citations are returned as a single string-citation
+ * context so they can be corrected (and reordered) atomically; the
+ * individual authorities are available on `members`.
+ *
+ * Record citations are recognized by the abbreviations in `recordDocuments`
+ * (default: RECORD_DOCUMENTS).
  */
 export function extractCitations(
   text: string,
-  contextSize = 100
+  contextSize = 100,
+  recordDocuments: readonly RecordDocument[] = RECORD_DOCUMENTS
 ): CitationContext[] {
   // Collect all matches from all patterns
   const allMatches: PatternMatch[] = [];
 
-  const patterns = [CASE_RE, STATUTE_RE, SHORT_FORM_RE, ID_RE];
+  const patterns = [
+    CASE_RE,
+    CALIFORNIA_CASE_RE,
+    UNREPORTED_RE,
+    STATUTE_RE,
+    STATE_CODE_RE,
+    CONSTITUTION_RE,
+    SESSION_LAW_RE,
+    FEDERAL_REGISTER_RE,
+    PERIODICAL_RE,
+    RESTATEMENT_RE,
+    BOOK_RE,
+    URL_RE,
+    SHORT_FORM_RE,
+    UNREPORTED_SHORT_FORM_RE,
+    SUPRA_RE,
+    HEREINAFTER_RE,
+    ID_RE,
+    recordRegex(recordDocuments),
+  ];
 
   for (const pattern of patterns) {
     pattern.lastIndex = 0;
@@ -104,11 +283,24 @@ export function extractCitations(
     }
   }
 
+  // Group semicolon-separated citations into string citations (Rule 1.4)
+  const units: CitationUnit[] = [];
+  for (const m of merged) {
+    const last = units[units.length - 1];
+    if (last && STRING_CITE_GAP_RE.test(text.slice(last.end, m.start))) {
+      last.members.push(m);
+      last.end = m.end;
+      last.text = text.slice(last.start, last.end);
+    } else {
+      units.push({ ...m, members: [m] });
+    }
+  }
+
   // Build CitationContext objects
   const results: CitationContext[] = [];
   let id = 0;
 
-  for (const m of merged) {
+  for (const m of units) {
     const start = m.start;
     const end = m.end;
 
@@ -134,8 +326,51 @@ export function extractCitations(
       }
     }
 
-    results.push({ id: id++, original: m.text, before, after, start, end });
+    if (m.members.length === 1) {
+      results.push({ id: id++, original: m.text, before, after, start, end, parsed: parseCitation(m.text) });
+      continue;
+    }
+
+    const members: CitationMember[] = m.members.map((member) => ({
+      original: member.text,
+      start: member.start,
+      end: member.end,
+      parsed: parseCitation(member.text),
+    }));
+    results.push({
+      id: id++,
+      original: m.text,
+      before,
+      after,
+      start,
+      end,
+      parsed: { kind: "string", citations: members.map((member) => member.parsed) },
+      members,
+    });
   }
 
   return results;
 }
+
+/**
+ * Extract citations from a document's body and footnotes.
+ *
+ * Each part is extracted on its own, so context never runs from one
+ * footnote into the next. Ids run in reading order (body, then footnotes
+ * in order); footnote citations carry their footnote number, and their
+ * `start`/`end` are offsets within that footnote.
+ */
+export function extractDocumentCitations(
+  document: CitationDocument,
+  contextSize = 100,
+  recordDocuments: readonly RecordDocument[] = RECORD_DOCUMENTS
+): CitationContext[] {
+  let id = 0;
+  return [document.body, ...document.footnotes].flatMap((text, index) =>
+    extractCitations(text, contextSize, recordDocuments).map((ctx) => ({
+      ...ctx,
+      id: id++,
+      ...(index > 0 && { footnote: index }),
+    }))
+  );
+}
@@ -0,0 +1,326 @@
+import type { CaseCitation, ParsedCitation, StatuteCitation } from "./types.js";
+import { splitItalics } from "./italics.js";
+import { parseCitation } from "./parser.js";
+
+/** Citation text without italic markup */
+function plainText(text: string): string {
+  return splitItalics(text)
+    .map((s) => s.text)
+    .join("");
+}
+
+/** Citation text without italic markup or thousands separators: "12,345" -> "12345" (Rule 6.2(a)) */
+function numericText(text: string): string {
+  return plainText(text).replace(/(?<=\d),(?=\d{3}(?!\d))/g, "");
+}
+
+function numbers(text: string): string[] {
+  return numericText(text).match(/\d+/g) ?? [];
+}
+
+/** Start and end of every numeric range, e.g. ["100", "105"] for "100-105" */
+function ranges(text: string): [string, string][] {
+  return [...numericText(text).matchAll(/(\d+)\s*[\u2013-]\s*(\d+)/g)].map((m): [string, string] => [m[1], m[2]]);
+}
+
+/**
+ * Numbers in the original (volume, page, pincite, section, year) that the
+ * replacement drops or changes. Added numbers are fine: a correction may
+ * supply a missing year or a parallel reporter.
+ */
+function changedNumbers(original: string, replacement: string): string[] {
+  const added = numbers(replacement);
+  const removed: string[] = [];
+  for (const n of numbers(original)) {
+    const i = added.indexOf(n);
+    if (i >= 0) {
+      added.splice(i, 1);
+    } else {
+      removed.push(n);
+    }
+  }
+
+  // Rule 3.2(a) shortens the end of a page range: "100-105" -> "100-05".
+  // Only the end of a range, kept with the same start, may be shortened.
+  const originalRanges = ranges(original);
+  const replacementRanges = ranges(replacement);
+  return removed.filter((n) => {
+    const shortened = replacementRanges.find(
+      ([start, end]) =>
+        end.length < n.length &&
+        n.endsWith(end) &&
+        added.includes(end) &&
+        originalRanges.some(([s, e]) => s === start && e === n)
+    );
+    if (!shortened) return true;
+    added.splice(added.indexOf(shortened[1]), 1);
+    return false;
+  });
+}
+
+/** A word of a party name: its lowercase letters and digits, and whether it is written as a shortening */
+interface Word {
+  key: string;
+  /** Ends in a period ("Corp.", "U.S.") or is a contraction ("Ass'n", "Gov't") */
+  shortened: boolean;
+}
+
+function words(name: string): Word[] {
+  return name
+    .replace(/&/g, " and ")
+    .split(/[\s,]+/)
+    .map((w) => ({ key: w.toLowerCase().replace(/[^a-z0-9]/g, ""), shortened: /\.$|\w['\u2019][a-z]{1,2}$/.test(w) }))
+    .filter((w) => w.key.length > 0);
+}
+
+// Table T6 words whose abbreviation may appear without its period or apostrophe
+const T6: Readonly<Record<string, string>> = {
+  administration: "admin",
+  association: "assn",
+  brothers: "bros",
+  company: "co",
+  commission: "commn",
+  corporation: "corp",
+  county: "cnty",
+  department: "dept",
+  district: "dist",
+  education: "educ",
+  government: "govt",
+  incorporated: "inc",
+  international: "intl",
+  limited: "ltd",
+  management: "mgmt",
+  manufacturing: "mfg",
+  national: "natl",
+  railroad: "rr",
+  railway: "ry",
+  university: "univ",
+};
+
+// Words Rule 10.2.1 leaves out of a case name
+const DROPPABLE = new Set([
+  "inc",
+  "ltd",
+  "llc",
+  "lp",
+  "llp",
+  "na",
+  "fsb",
+  "et",
+  "al",
+  "the",
+  "of",
+  "america",
+  "state",
+  "commonwealth",
+]);
+
+/** "corp" abbreviates "corporation", "assn" abbreviates "association" */
+function abbreviates(short: string, long: string): boolean {
+  if (short.length >= long.length || short[0] !== long[0]) return false;
+  let i = 0;
+  for (const ch of long) {
+    if (ch === short[i]) i++;
+  }
+  return i === short.length;
+}
+
+/** Whether replacement word `to` stands for original word `from`, written out or shortened */
+function sameWord(from: Word, to: Word): boolean {
+  return (
+    from.key === to.key ||
+    T6[from.key] === to.key ||
+    T6[to.key] === from.key ||
+    (to.shortened && abbreviates(to.key, from.key)) ||
+    (from.shortened && abbreviates(from.key, to.key))
+  );
+}
+
+/** Initials of every run of two or more consecutive words, with the run's indexes */
+function initialRuns(ws: readonly Word[]): { initials: string; indexes: number[] }[] {
+  const runs: { initials: string; indexes: number[] }[] = [];
+  for (let start = 0; start < ws.length; start++) {
+    let initials = ws[start].key[0];
+    for (let end = start + 1; end < ws.length; end++) {
+      initials += ws[end].key[0];
+      runs.push({ initials, indexes: Array.from({ length: end - start + 1 }, (_, k) => start + k) });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Whether `replacement` names the same party as `original`, allowing
+ * Rule 10.2 abbreviation in either direction ("Corporation" / "Corp.",
+ * "United States" / "U.S."), dropped words ("Inc.", "et al.") and an
+ * individual's dropped given names ("John Smith" / "Smith").
+ */
+function sameParty(original: string, replacement: string): boolean {
+  const from = words(original);
+  const to = words(replacement);
+  // Original words the replacement accounts for
+  const kept = new Set<number>();
+
+  for (const [i, w] of to.entries()) {
+    // Spelled out from an initialism in the original: "U.S." -> "United States"
+    const initialism = from.findIndex((o) => initialRuns(to).some((run) => run.indexes.includes(i) && run.initials === o.key));
+    if (initialism >= 0) {
+      kept.add(initialism);
+      continue;
+    }
+    // An initialism of original words: "United States" -> "U.S."
+    const run = initialRuns(from).find((r) => r.initials === w.key);
+    if (run) {
+      run.indexes.forEach((k) => kept.add(k));
+      continue;
+    }
+    const match = from.findIndex((o, k) => !kept.has(k) && sameWord(o, w));
+    if (match < 0) return false;
+    kept.add(match);
+  }
+
+  const dropped = from.map((_, k) => k).filter((k) => !kept.has(k) && !DROPPABLE.has(from[k].key));
+  // Given names before a kept surname: "John Smith" -> "Smith"
+  const surname = from.length - 1;
+  return dropped.every((k) => from.length <= 3 && to.length === 1 && kept.has(surname) && k < surname);
+}
+
+/** A member of a (string) citation and how it parses */
+interface Member {
+  text: string;
+  parsed: ParsedCitation;
+}
+
+function members(text: string): Member[] {
+  return text.split(/;\s+/).map((t) => ({ text: t, parsed: parseCitation(t) }));
+}
+
+/** A page or range with dashes, spaces and thousands separators normalized: "100 – 105" -> "100-105" */
+function pin(text: string): string {
+  return numericText(text).replace(/\s+/g, "").replace(/\u2013/g, "-");
+}
+
+/** Same pin cite, allowing a Rule 3.2(a) shortened range end in either text: "100-105" / "100-05" */
+function samePin(original: string, replacement: string): boolean {
+  const [a, b] = [pin(original), pin(replacement)];
+  if (a === b) return true;
+  const [aStart, aEnd] = a.split("-");
+  const [bStart, bEnd] = b.split("-");
+  return (
+    aStart === bStart &&
+    aEnd !== undefined &&
+    bEnd !== undefined &&
+    (aEnd.endsWith(bEnd) || bEnd.endsWith(aEnd))
+  );
+}
+
+type Field = string | number | undefined;
+
+/** A reason if the replacement drops or changes a component the original has */
+function fieldChange(field: string, from: Field, to: Field): string[] {
+  if (from === undefined || from === to) return [];
+  return [to === undefined ? `Removes ${field} "${from}"` : `Changes ${field} "${from}" to "${to}"`];
+}
+
+/** The field-by-field differences between two parses of one case citation */
+function caseChanges(before: CaseCitation, after: CaseCitation): string[] {
+  const reasons: string[] = [];
+  const compare = (field: string, from: Field, to: Field) => reasons.push(...fieldChange(field, from, to));
+
+  compare("volume", before.volume, after.volume);
+  compare("reporter", before.reporter, after.reporter);
+  compare("first page", before.firstPage, after.firstPage);
+  before.pincites.forEach((p, i) => {
+    if (after.pincites[i] === undefined || !samePin(p, after.pincites[i])) compare("pincite", p, after.pincites[i]);
+  });
+  compare("year", before.year, after.year);
+  before.parties.forEach((party, i) => {
+    if (!sameParty(party, after.parties[i])) {
+      reasons.push(`Changes party name "${party}" to "${after.parties[i]}"`);
+    }
+  });
+  return reasons;
+}
+
+/** The field-by-field differences between two parses of one statutory citation */
+function statuteChanges(before: StatuteCitation, after: StatuteCitation): string[] {
+  const reasons: string[] = [];
+  const compare = (field: string, from: Field, to: Field) => reasons.push(...fieldChange(field, from, to));
+
+  compare("title", before.title, after.title);
+  compare("code", before.code, after.code);
+  compare("section", before.section, after.section);
+  const subsections = (c: StatuteCitation) => c.subsections.map((sub) => `(${sub})`).join("") || undefined;
+  compare("subsections", subsections(before), subsections(after));
+  compare("end section", before.endSection, after.endSection);
+  return reasons;
+}
+
+/**
+ * Pair each original member with the replacement member it became, so
+ * reordered string citations compare correctly: first by the same volume
+ * and page (or title and section), then by the same parties, then in order.
+ */
+function pair<T extends ParsedCitation>(
+  originals: readonly T[],
+  replacements: readonly T[],
+  tests: readonly ((a: T, b: T) => boolean)[]
+): [T, T][] {
+  const pairs: [T, T][] = [];
+  const unpaired = [...originals];
+  const available = [...replacements];
+  for (const test of [...tests, () => true]) {
+    for (const before of [...unpaired]) {
+      const i = available.findIndex((after) => test(before, after));
+      if (i < 0) continue;
+      pairs.push([before, available[i]]);
+      available.splice(i, 1);
+      unpaired.splice(unpaired.indexOf(before), 1);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Check that a correction only changes form, not substance.
+ *
+ * Case and statutory citations are compared component by component: a
+ * case keeps its volume, reporter, first page, pincites, year and parties
+ * (modulo abbreviation); a statute keeps its title, code, section and
+ * subsections. In anything the parser doesn't break down, every number in
+ * the original must survive into the replacement. Returns one reason per
+ * problem; an empty array means the correction is safe to apply.
+ */
+export function verifyCorrection(original: string, replacement: string): string[] {
+  const before = members(original);
+  const after = members(replacement);
+  const isCase = (m: Member) => m.parsed.kind === "case";
+  const isStatute = (m: Member) => m.parsed.kind === "statute";
+
+  const cases = pair(
+    before.filter(isCase).map((m) => m.parsed as CaseCitation),
+    after.filter(isCase).map((m) => m.parsed as CaseCitation),
+    [
+      (a, b) => a.volume === b.volume && a.firstPage === b.firstPage,
+      (a, b) => a.parties.every((party, i) => sameParty(party, b.parties[i])),
+    ]
+  );
+  const statutes = pair(
+    before.filter(isStatute).map((m) => m.parsed as StatuteCitation),
+    after.filter(isStatute).map((m) => m.parsed as StatuteCitation),
+    [(a, b) => a.title === b.title && a.section === b.section]
+  );
+  const paired = new Set<ParsedCitation>([...cases, ...statutes].flat());
+
+  // Members the parser doesn't break down, or without a counterpart
+  const rest = (ms: readonly Member[]) =>
+    ms
+      .filter((m) => !paired.has(m.parsed))
+      .map((m) => m.text)
+      .join("; ");
+  return [
+    ...changedNumbers(rest(before), rest(after)).map((n) => `Changes or removes "${n}"`),
+    ...cases.flatMap(([a, b]) => caseChanges(a, b)),
+    ...statutes.flatMap(([a, b]) => statuteChanges(a, b)),
+  ];
+}
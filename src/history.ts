@@ -0,0 +1,245 @@
+import type {
+  CaseCitation,
+  CitationContext,
+  CitationHistory,
+  CitationWarning,
+  CitationWarningCode,
+  ParsedCitation,
+  UnreportedCitation,
+} from "./types.js";
+
+/** A single authority in document order, with the context it belongs to */
+interface Authority {
+  contextId: number;
+  position: number;
+  /** Footnote the authority appears in, if any */
+  footnote: number | undefined;
+  parsed: ParsedCitation;
+  /** Number of authorities in the enclosing context (> 1 for string citations) */
+  groupSize: number;
+}
+
+/** Flatten contexts into authorities, expanding string citations into their members */
+function toAuthorities(contexts: readonly CitationContext[]): Authority[] {
+  return contexts.flatMap((ctx) => {
+    if (ctx.members) {
+      return ctx.members.map((m) => ({
+        contextId: ctx.id,
+        position: m.start,
+        footnote: ctx.footnote,
+        parsed: m.parsed,
+        groupSize: ctx.members!.length,
+      }));
+    }
+    return ctx.parsed
+      ? [{ contextId: ctx.id, position: ctx.start, footnote: ctx.footnote, parsed: ctx.parsed, groupSize: 1 }]
+      : [];
+  });
+}
+
+type FullCitation = CaseCitation | UnreportedCitation;
+
+function sameCase(a: FullCitation, b: FullCitation): boolean {
+  if (a.kind === "case" && b.kind === "case") {
+    return a.volume === b.volume && a.reporter === b.reporter && a.firstPage === b.firstPage;
+  }
+  if (a.kind === "unreported" && b.kind === "unreported") {
+    // The same decision by database identifier, or else by docket number
+    if (a.database !== undefined && b.database !== undefined) return a.database === b.database;
+    return a.docket !== undefined && a.docket === b.docket;
+  }
+  return false;
+}
+
+/** Rule 10.9(b): a case short form must be within five footnotes of the last citation to the case */
+const SHORT_FORM_FOOTNOTE_LIMIT = 5;
+
+/**
+ * Resolve every short form in the document to its antecedent and flag
+ * citation-history problems.
+ *
+ * - "Id." refers to the immediately preceding authority. It is flagged when
+ *   nothing precedes it, or when the preceding citation is a string citation
+ *   with several authorities (Id. would be ambiguous).
+ * - "Smith, 123 F.3d at 456" must follow a full citation to the same volume
+ *   and reporter somewhere earlier in the document; "Smith, 2020 WL 1234567,
+ *   at *4" one to the same database identifier, and "Smith, slip op. at 6"
+ *   a slip opinion naming Smith.
+ * - A full case citation repeated after its first occurrence should usually
+ *   be a short form instead.
+ *
+ * For footnoted documents (contexts with `footnote` set), the footnote rules
+ * apply as well:
+ *
+ * - Id. may refer to the preceding footnote only when that footnote cites a
+ *   single authority, and never further back (Rule 4.1).
+ * - A case short form must be within five footnotes of the last citation to
+ *   the case; past that, a full citation is required rather than flagged as
+ *   repeated (Rule 10.9(b)).
+ * - "supra note N" must point to an earlier footnote that exists. Pass
+ *   `footnoteCount` to check the upper bound (Rule 4.2).
+ *
+ * Antecedents are context ids; Id. and short forms resolve through chains of
+ * short forms to the full citation they ultimately refer to.
+ */
+export function analyzeHistory(contexts: readonly CitationContext[], footnoteCount?: number): CitationHistory {
+  const antecedents = new Map<number, number>();
+  const warnings: CitationWarning[] = [];
+  const fullCases: { contextId: number; parsed: FullCitation }[] = [];
+  // Full citation context id -> footnote of the latest citation to it, in any form
+  const lastCited = new Map<number, number | undefined>();
+  let previous: Authority | undefined;
+
+  const authorities = toAuthorities(contexts);
+  const perFootnote = new Map<number, number>();
+  for (const { footnote, parsed } of authorities) {
+    if (footnote !== undefined && parsed.kind !== "hereinafter") {
+      perFootnote.set(footnote, (perFootnote.get(footnote) ?? 0) + 1);
+    }
+  }
+
+  const warn = (code: CitationWarningCode, authority: Authority, message: string) => {
+    warnings.push({
+      code,
+      citationId: authority.contextId,
+      position: authority.position,
+      ...(authority.footnote !== undefined && { footnote: authority.footnote }),
+      message,
+    });
+  };
+
+  /** Footnotes between the latest citation to `target` and this authority, if both are in footnotes */
+  const footnotesSince = (target: number, authority: Authority): number | undefined => {
+    const last = lastCited.get(target);
+    return last !== undefined && authority.footnote !== undefined ? authority.footnote - last : undefined;
+  };
+
+  /** Record a short form's antecedent, or flag it when there is none or it is too far back */
+  const resolveShortForm = (authority: Authority, match: { contextId: number } | undefined, label: string) => {
+    if (!match) {
+      warn("orphan-short-form", authority, `Short form "${label}" has no earlier full citation`);
+      return;
+    }
+    antecedents.set(authority.contextId, match.contextId);
+    const since = footnotesSince(match.contextId, authority);
+    if (since !== undefined && since > SHORT_FORM_FOOTNOTE_LIMIT) {
+      warn(
+        "stale-short-form",
+        authority,
+        `Short form "${label}" in footnote ${authority.footnote} is more than five footnotes after the last citation to the case (footnote ${lastCited.get(match.contextId)}); use a full citation`
+      );
+    }
+    lastCited.set(match.contextId, authority.footnote);
+  };
+
+  for (const authority of authorities) {
+    const { parsed } = authority;
+
+    switch (parsed.kind) {
+      case "case":
+      case "unreported": {
+        const earlier = fullCases.find((c) => sameCase(c.parsed, parsed));
+        if (earlier) {
+          antecedents.set(authority.contextId, earlier.contextId);
+          if ((footnotesSince(earlier.contextId, authority) ?? 0) <= SHORT_FORM_FOOTNOTE_LIMIT) {
+            warn(
+              "repeated-full-citation",
+              authority,
+              `Full citation to ${parsed.caseName} repeats an earlier full citation; use a short form`
+            );
+          }
+          lastCited.set(earlier.contextId, authority.footnote);
+        } else {
+          fullCases.push({ contextId: authority.contextId, parsed });
+          lastCited.set(authority.contextId, authority.footnote);
+        }
+        break;
+      }
+
+      case "short-form": {
+        const candidates = fullCases.filter(
+          (c) => c.parsed.kind === "case" && c.parsed.volume === parsed.volume && c.parsed.reporter === parsed.reporter
+        );
+        const match = candidates.find((c) => c.parsed.caseName.includes(parsed.party)) ?? candidates[0];
+        resolveShortForm(authority, match, `${parsed.party}, ${parsed.volume} ${parsed.reporter}`);
+        break;
+      }
+
+      case "unreported-short-form": {
+        const { database } = parsed;
+        const candidates = fullCases.filter((c) =>
+          c.parsed.kind === "unreported" && (database !== undefined ? c.parsed.database === database : c.parsed.slipOpinion)
+        );
+        const named = candidates.find((c) => c.parsed.caseName.includes(parsed.party));
+        // A slip opinion short form identifies its case only by name
+        const match = database !== undefined ? named ?? candidates[0] : named;
+        resolveShortForm(authority, match, `${parsed.party}, ${database ?? "slip op."}`);
+        break;
+      }
+
+      case "id": {
+        if (!previous) {
+          warn("orphan-id", authority, "Id. has no preceding authority");
+          break;
+        }
+
+        const { footnote } = authority;
+        if (footnote !== undefined && previous.footnote !== undefined && previous.footnote !== footnote) {
+          if (previous.footnote !== footnote - 1) {
+            warn(
+              "id-across-footnotes",
+              authority,
+              `Id. in footnote ${footnote} refers back to footnote ${previous.footnote}; it may refer only to the same or the immediately preceding footnote`
+            );
+          } else if ((perFootnote.get(previous.footnote) ?? 0) > 1) {
+            warn(
+              "id-across-footnotes",
+              authority,
+              `Id. in footnote ${footnote} follows footnote ${previous.footnote}, which cites more than one authority`
+            );
+          }
+        }
+
+        if (previous.groupSize > 1) {
+          warn(
+            "id-after-string-citation",
+            authority,
+            "Id. follows a string citation with multiple authorities and is ambiguous"
+          );
+        } else {
+          const shortForm = ["id", "short-form", "unreported-short-form"].includes(previous.parsed.kind);
+          const target = shortForm ? antecedents.get(previous.contextId) : previous.contextId;
+          // An unresolved short form before this Id. has already been flagged
+          if (target !== undefined) {
+            antecedents.set(authority.contextId, target);
+            if (lastCited.has(target)) lastCited.set(target, footnote);
+          }
+        }
+        break;
+      }
+
+      case "supra": {
+        const { note } = parsed;
+        if (note === undefined) break;
+        if (authority.footnote !== undefined && note >= authority.footnote) {
+          warn(
+            "invalid-supra-note",
+            authority,
+            `"supra note ${note}" in footnote ${authority.footnote} must refer to an earlier footnote`
+          );
+        } else if (footnoteCount !== undefined && (note < 1 || note > footnoteCount)) {
+          warn("invalid-supra-note", authority, `"supra note ${note}" refers to a footnote that does not exist`);
+        }
+        break;
+      }
+
+      case "hereinafter":
+        // A designation attached to the preceding citation, not an authority
+        continue;
+    }
+
+    previous = authority;
+  }
+
+  return { antecedents, warnings };
+}
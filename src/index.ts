@@ -1,13 +1,80 @@
-export { bluebookify } from "./core.js";
-export { extractCitations } from "./extractor.js";
+export {
+  BluebookifyAbortError,
+  bluebookify,
+  bluebookifyDocument,
+  bluebookifyOffline,
+  estimate,
+  proposeCorrections,
+} from "./core.js";
+export { createMemoryCache } from "./cache.js";
+export { COURTS, checkCourts } from "./courts.js";
+export type { Court, CourtSystem } from "./courts.js";
+export { bluebookifyDocx } from "./docx.js";
+export { extractCitations, extractDocumentCitations } from "./extractor.js";
+export { analyzeHistory } from "./history.js";
+export { verifyCorrection } from "./guard.js";
+export { formatItalics } from "./italics.js";
+export { JOURNALS } from "./journals.js";
+export type { Journal } from "./journals.js";
+export { JURISDICTIONS } from "./jurisdictions.js";
+export type { Jurisdiction } from "./jurisdictions.js";
 export { buildMessages } from "./prompt.js";
+export { normalizeCitation } from "./normalizer.js";
+export { parseCitation } from "./parser.js";
+export { RECORD_DOCUMENTS } from "./records.js";
+export type { RecordDocument } from "./records.js";
+export { applySelected } from "./replacer.js";
+export { REPORTERS } from "./reporters.js";
+export { STYLES } from "./styles.js";
+export type { Reporter, ReporterFamily } from "./reporters.js";
 export type {
+  Antecedent,
+  BatchEstimate,
+  BluebookifyDocumentResult,
+  BluebookifyDocxOptions,
+  BluebookifyDocxResult,
+  BluebookifyOfflineOptions,
   BluebookifyOptions,
+  BluebookifyProgress,
   BluebookifyResult,
   ApplyResult,
+  CacheStats,
+  CaseCitation,
   CitationContext,
   CitationCorrection,
+  CitationDocument,
+  CitationHistory,
+  CitationMember,
+  CitationWarning,
+  CitationWarningCode,
   Correction,
+  CorrectionCache,
+  CorrectionProposal,
+  CorrectionSource,
+  Estimate,
+  EstimateOptions,
+  HereinafterCitation,
+  IdCitation,
+  InfraCitation,
+  ItalicStyle,
+  LlmCallOptions,
+  LlmFunction,
   Message,
+  ParsedCitation,
+  PromptOptions,
+  ProposeResult,
+  RejectedCorrection,
+  ResponseWarning,
+  ResponseWarningCode,
+  RetryStats,
   Provider,
+  ShortFormCitation,
+  StatuteCitation,
+  StringCitation,
+  StyleName,
+  StyleProfile,
+  SupraCitation,
+  UnknownCitation,
+  UnreportedCitation,
+  UnreportedShortFormCitation,
 } from "./types.js";
@@ -0,0 +1,83 @@
+import type { ItalicStyle } from "./types.js";
+
+/** A run of citation text that is either italic or roman */
+export interface ItalicSegment {
+  text: string;
+  italic: boolean;
+}
+
+export const ITALIC_STYLES: readonly ItalicStyle[] = [
+  "markdown",
+  "html",
+  "html-em",
+  "latex",
+  "latex-emph",
+  "rtf",
+  "plain",
+];
+
+/**
+ * Any italic markup the LLM (or the input document) may use.
+ *
+ * Markdown asterisks must hug their content and never start with a digit, so
+ * star-page pincites ("at *3") are not mistaken for italics.
+ */
+const ITALIC_RE =
+  /<(i|em)>([\s\S]*?)<\/\1>|\\(?:textit|emph)\{([^{}]*)\}|\*(?![\s\d*])([^*\n]*?[^\s*])\*|\{\\i ([^{}]*)\}/g;
+
+/** Split text into italic and roman segments, whatever markup it uses */
+export function splitItalics(text: string): ItalicSegment[] {
+  const segments: ItalicSegment[] = [];
+  const push = (segment: string, italic: boolean) => {
+    if (segment.length > 0) {
+      segments.push({ text: segment, italic });
+    }
+  };
+
+  let last = 0;
+  ITALIC_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = ITALIC_RE.exec(text)) !== null) {
+    push(text.slice(last, m.index), false);
+    push(m[2] ?? m[3] ?? m[4] ?? m[5], true);
+    last = m.index + m[0].length;
+  }
+  push(text.slice(last), false);
+
+  return segments;
+}
+
+function wrap(text: string, style: ItalicStyle): string {
+  switch (style) {
+    case "markdown":
+      return `*${text}*`;
+    case "html":
+      return `<i>${text}</i>`;
+    case "html-em":
+      return `<em>${text}</em>`;
+    case "latex":
+      return `\\textit{${text}}`;
+    case "latex-emph":
+      return `\\emph{${text}}`;
+    case "rtf":
+      return `{\\i ${text}}`;
+    case "plain":
+      return text;
+  }
+}
+
+/** Render segments with the given italic markup */
+export function renderItalics(segments: readonly ItalicSegment[], style: ItalicStyle): string {
+  return segments.map((s) => (s.italic ? wrap(s.text, style) : s.text)).join("");
+}
+
+/**
+ * Rewrite any italic markup in text into the requested style.
+ *
+ * "*Smith v. Jones*" -> "<i>Smith v. Jones</i>" (html),
+ * "\textit{Smith v. Jones}" (latex), "{\i Smith v. Jones}" (rtf), or
+ * "Smith v. Jones" (plain).
+ */
+export function formatItalics(text: string, style: ItalicStyle): string {
+  return renderItalics(splitItalics(text), style);
+}
@@ -0,0 +1,61 @@
+/**
+ * Periodical abbreviation table (Bluebook T13-style).
+ *
+ * The extractor's law review and journal regex is built from this table.
+ * To support a new periodical, add a row here.
+ */
+
+import { abbreviationPattern } from "./reporters.js";
+
+/** A single periodical */
+export interface Journal {
+  /** Bluebook abbreviation, e.g. "Harv. L. Rev." */
+  abbreviation: string;
+  /** Full name */
+  name: string;
+}
+
+export const JOURNALS: readonly Journal[] = [
+  { abbreviation: "A.B.A. J.", name: "ABA Journal" },
+  { abbreviation: "B.C. L. Rev.", name: "Boston College Law Review" },
+  { abbreviation: "B.U. L. Rev.", name: "Boston University Law Review" },
+  { abbreviation: "Cal. L. Rev.", name: "California Law Review" },
+  { abbreviation: "Colum. L. Rev.", name: "Columbia Law Review" },
+  { abbreviation: "Cornell L. Rev.", name: "Cornell Law Review" },
+  { abbreviation: "Duke L.J.", name: "Duke Law Journal" },
+  { abbreviation: "Emory L.J.", name: "Emory Law Journal" },
+  { abbreviation: "Fordham L. Rev.", name: "Fordham Law Review" },
+  { abbreviation: "Geo. L.J.", name: "Georgetown Law Journal" },
+  { abbreviation: "Geo. Wash. L. Rev.", name: "George Washington Law Review" },
+  { abbreviation: "Harv. C.R.-C.L. L. Rev.", name: "Harvard Civil Rights-Civil Liberties Law Review" },
+  { abbreviation: "Harv. J.L. & Pub. Pol'y", name: "Harvard Journal of Law & Public Policy" },
+  { abbreviation: "Harv. J.L. & Tech.", name: "Harvard Journal of Law & Technology" },
+  { abbreviation: "Harv. L. Rev.", name: "Harvard Law Review" },
+  { abbreviation: "Hastings L.J.", name: "Hastings Law Journal" },
+  { abbreviation: "Iowa L. Rev.", name: "Iowa Law Review" },
+  { abbreviation: "Mich. L. Rev.", name: "Michigan Law Review" },
+  { abbreviation: "Minn. L. Rev.", name: "Minnesota Law Review" },
+  { abbreviation: "N.C. L. Rev.", name: "North Carolina Law Review" },
+  { abbreviation: "N.Y.U. L. Rev.", name: "New York University Law Review" },
+  { abbreviation: "Notre Dame L. Rev.", name: "Notre Dame Law Review" },
+  { abbreviation: "Nw. U. L. Rev.", name: "Northwestern University Law Review" },
+  { abbreviation: "Stan. L. Rev.", name: "Stanford Law Review" },
+  { abbreviation: "Tex. L. Rev.", name: "Texas Law Review" },
+  { abbreviation: "U. Chi. L. Rev.", name: "University of Chicago Law Review" },
+  { abbreviation: "U. Ill. L. Rev.", name: "University of Illinois Law Review" },
+  { abbreviation: "U. Pa. L. Rev.", name: "University of Pennsylvania Law Review" },
+  { abbreviation: "UCLA L. Rev.", name: "UCLA Law Review" },
+  { abbreviation: "Vand. L. Rev.", name: "Vanderbilt Law Review" },
+  { abbreviation: "Va. L. Rev.", name: "Virginia Law Review" },
+  { abbreviation: "Wash. L. Rev.", name: "Washington Law Review" },
+  { abbreviation: "Wis. L. Rev.", name: "Wisconsin Law Review" },
+  { abbreviation: "Wm. & Mary L. Rev.", name: "William & Mary Law Review" },
+  { abbreviation: "Yale J. on Reg.", name: "Yale Journal on Regulation" },
+  { abbreviation: "Yale L.J.", name: "Yale Law Journal" },
+];
+
+/** Regex source (non-capturing group) matching any periodical in the table, longest first */
+export const JOURNAL_PATTERN = `(?:${[...JOURNALS]
+  .sort((a, b) => b.abbreviation.length - a.abbreviation.length)
+  .map((j) => abbreviationPattern(j.abbreviation))
+  .join("|")})`;
@@ -0,0 +1,106 @@
+/**
+ * Jurisdiction table for constitutions and codified statutes (Bluebook T1-style).
+ *
+ * The extractor's constitution and state-code regexes are built from this
+ * table. To support a new jurisdiction or code, add a row here.
+ */
+
+import { abbreviationPattern } from "./reporters.js";
+
+/** A jurisdiction whose constitution and codes are recognized */
+export interface Jurisdiction {
+  /** Full name, e.g. "California" */
+  name: string;
+  /** Bluebook abbreviation, as in "Cal. Const." */
+  abbreviation: string;
+  /**
+   * Code abbreviations cited with a section symbol, in Bluebook form
+   * ("Cal. Civ. Proc. Code", "Tex. Penal Code Ann."). A trailing "Ann." is
+   * optional in the text; a leading title number ("18 Pa. Cons. Stat.")
+   * and a title or chapter ("tit. 8,", "ch. 93A,") are accepted too.
+   */
+  codes?: readonly string[];
+}
+
+export const JURISDICTIONS: readonly Jurisdiction[] = [
+  { name: "United States", abbreviation: "U.S." },
+  { name: "Arizona", abbreviation: "Ariz.", codes: ["Ariz. Rev. Stat. Ann."] },
+  {
+    name: "California",
+    abbreviation: "Cal.",
+    codes: [
+      "Cal. Bus. & Prof. Code",
+      "Cal. Civ. Code",
+      "Cal. Civ. Proc. Code",
+      "Cal. Corp. Code",
+      "Cal. Evid. Code",
+      "Cal. Fam. Code",
+      "Cal. Gov't Code",
+      "Cal. Health & Safety Code",
+      "Cal. Ins. Code",
+      "Cal. Lab. Code",
+      "Cal. Penal Code",
+      "Cal. Veh. Code",
+      "Cal. Welf. & Inst. Code",
+    ],
+  },
+  { name: "Colorado", abbreviation: "Colo.", codes: ["Colo. Rev. Stat."] },
+  { name: "Delaware", abbreviation: "Del.", codes: ["Del. Code Ann."] },
+  { name: "Florida", abbreviation: "Fla.", codes: ["Fla. Stat."] },
+  { name: "Georgia", abbreviation: "Ga.", codes: ["Ga. Code Ann."] },
+  { name: "Massachusetts", abbreviation: "Mass.", codes: ["Mass. Gen. Laws"] },
+  { name: "Michigan", abbreviation: "Mich.", codes: ["Mich. Comp. Laws"] },
+  { name: "New Jersey", abbreviation: "N.J.", codes: ["N.J. Stat. Ann."] },
+  {
+    name: "New York",
+    abbreviation: "N.Y.",
+    codes: [
+      "N.Y. Bus. Corp. Law",
+      "N.Y. Educ. Law",
+      "N.Y. Exec. Law",
+      "N.Y. Gen. Bus. Law",
+      "N.Y. Gen. Oblig. Law",
+      "N.Y. Ins. Law",
+      "N.Y. Jud. Law",
+      "N.Y. Lab. Law",
+      "N.Y. Penal Law",
+      "N.Y. Veh. & Traf. Law",
+    ],
+  },
+  { name: "North Carolina", abbreviation: "N.C.", codes: ["N.C. Gen. Stat."] },
+  { name: "Ohio", abbreviation: "Ohio", codes: ["Ohio Rev. Code Ann."] },
+  { name: "Pennsylvania", abbreviation: "Pa.", codes: ["Pa. Cons. Stat.", "Pa. Stat. Ann."] },
+  {
+    name: "Texas",
+    abbreviation: "Tex.",
+    codes: [
+      "Tex. Bus. & Com. Code Ann.",
+      "Tex. Civ. Prac. & Rem. Code Ann.",
+      "Tex. Code Crim. Proc. Ann.",
+      "Tex. Fam. Code Ann.",
+      "Tex. Gov't Code Ann.",
+      "Tex. Health & Safety Code Ann.",
+      "Tex. Ins. Code Ann.",
+      "Tex. Lab. Code Ann.",
+      "Tex. Penal Code Ann.",
+    ],
+  },
+  { name: "Virginia", abbreviation: "Va.", codes: ["Va. Code Ann."] },
+  { name: "Washington", abbreviation: "Wash.", codes: ["Wash. Rev. Code"] },
+];
+
+/** Longest first so "Cal. Civ. Proc. Code" wins over a shorter prefix */
+function alternation(spellings: readonly string[]): string {
+  return `(?:${[...spellings]
+    .sort((a, b) => b.length - a.length)
+    .map(abbreviationPattern)
+    .join("|")})`;
+}
+
+/** Regex source (non-capturing group) matching any jurisdiction's abbreviation before "Const." */
+export const CONSTITUTION_PATTERN = alternation(JURISDICTIONS.map((j) => j.abbreviation));
+
+/** Regex source (non-capturing group) matching any code in the table, without a trailing "Ann." */
+export const CODE_PATTERN = alternation(
+  JURISDICTIONS.flatMap((j) => j.codes ?? []).map((code) => code.replace(/ Ann\.$/, ""))
+);
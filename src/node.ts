@@ -0,0 +1,48 @@
+/**
+ * Node-only APIs, published as "bluebookify/node" so the main entry point
+ * imports no Node built-ins and bundles for the browser.
+ */
+
+import type { CachedCorrection, CorrectionCache } from "./types.js";
+import { readFile, writeFile } from "node:fs/promises";
+
+/**
+ * A cache persisted as a JSON object in a file, so repeated runs over the
+ * same draft only pay for new or changed citations.
+ *
+ * The file is read on first use (a missing file is an empty cache). Entries
+ * set in the same tick are written together in one write.
+ */
+export function createFileCache(path: string): CorrectionCache {
+  let entries: Promise<Map<string, CachedCorrection>> | undefined;
+  // Writes run one at a time; `scheduled` is the next write not yet started
+  let queue: Promise<void> = Promise.resolve();
+  let scheduled: Promise<void> | undefined;
+
+  const load = () =>
+    (entries ??= readFile(path, "utf8").then(
+      (json) => new Map(Object.entries(JSON.parse(json) as Record<string, CachedCorrection>)),
+      (err: NodeJS.ErrnoException) => {
+        if (err.code === "ENOENT") return new Map<string, CachedCorrection>();
+        throw err;
+      }
+    ));
+
+  return {
+    get: async (key) => (await load()).get(key),
+    set: async (key, correction) => {
+      const map = await load();
+      map.set(key, correction);
+      if (!scheduled) {
+        scheduled = queue
+          .catch(() => undefined)
+          .then(async () => {
+            scheduled = undefined;
+            await writeFile(path, JSON.stringify(Object.fromEntries(map), null, 2) + "\n");
+          });
+        queue = scheduled;
+      }
+      await scheduled;
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Deterministic, rule-based citation fixes.
+ *
+ * These cover purely mechanical errors (spacing, punctuation, "vs." for "v.",
+ * court abbreviations) that never need an LLM's judgment. Each rule is applied to a single
+ * extracted citation string, never to the surrounding prose.
+ */
+
+import type { StyleProfile } from "./types.js";
+import { canonicalCourt } from "./courts.js";
+import { REPORTER_PATTERN, canonicalReporter } from "./reporters.js";
+import { STYLES } from "./styles.js";
+
+/** A single mechanical rewrite applied to citation text */
+interface NormalizationRule {
+  pattern: RegExp;
+  replacement: string | ((style: StyleProfile, match: string, ...groups: string[]) => string);
+}
+
+/** Rules are applied in order, each to the output of the previous one. */
+const RULES: readonly NormalizationRule[] = [
+  // "Marbury vs. Madison", "Marbury vs Madison", "Marbury v Madison" -> "v."
+  { pattern: /(?<=\S)\s+(?:vs\.?|v)\s+(?=\S)/g, replacement: " v. " },
+  // Reporter spelling and spacing from the T1 table: "5 US 137" -> "5 U.S. 137",
+  // "F. 3d" -> "F.3d", "S.Ct." -> "S. Ct.", "A. 2d" -> "A.2d", "So.3d" -> "So. 3d".
+  // A style profile may prefer other spellings ("Cal. 4th" -> "Cal.4th").
+  {
+    pattern: new RegExp(`\\b(\\d+\\s+)(${REPORTER_PATTERN})(?=\\s+(?:\\d|at\\b))`, "g"),
+    replacement: (style, _m, volume, reporter) => {
+      const canonical = canonicalReporter(reporter) ?? reporter;
+      return volume + (style.reporters?.[canonical] ?? canonical);
+    },
+  },
+  // Court in a case parenthetical from the court table: "(9th Circuit 1999)" -> "(9th Cir. 1999)",
+  // "(S.D.N.Y 2010)" -> "(S.D.N.Y. 2010)", "(N.D. Cal 2015)" -> "(N.D. Cal. 2015)". Unknown courts are left alone.
+  {
+    pattern: new RegExp(
+      `(\\b\\d+\\s+${REPORTER_PATTERN}\\s+\\d+(?:,\\s*\\d+(?:[\u2013-]\\d+)?(?:\\s+nn?\\.\\s*\\d+(?:[\u2013-]\\d+)?)?)*\\s*\\()([^()]*?[^()\\s])\\s*(\\d{4}\\))`,
+      "g"
+    ),
+    replacement: (_style, m, citation, court, year) => {
+      const canonical = canonicalCourt(court);
+      return canonical === undefined ? m : `${citation}${canonical} ${year}`;
+    },
+  },
+  // "§1983" -> "§ 1983", "§§  101" -> "§§ 101"; "¶5" -> "¶ 5" in record citations
+  { pattern: /(§§?|¶¶?) *(?=\d)/g, replacement: "$1 " },
+];
+
+/**
+ * Apply all mechanical rules to a single citation string.
+ *
+ * Returns the citation unchanged when no rule applies.
+ */
+export function normalizeCitation(citation: string, style: StyleProfile = STYLES.bluebook): string {
+  let result = citation;
+  for (const { pattern, replacement } of RULES) {
+    result = typeof replacement === "string"
+      ? result.replace(pattern, replacement)
+      : result.replace(pattern, (match: string, ...groups: string[]) => replacement(style, match, ...groups));
+  }
+  return result;
+}
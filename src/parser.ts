@@ -0,0 +1,275 @@
+import type {
+  CaseCitation,
+  HereinafterCitation,
+  IdCitation,
+  InfraCitation,
+  ParsedCitation,
+  ShortFormCitation,
+  StatuteCitation,
+  SupraCitation,
+  UnreportedCitation,
+  UnreportedShortFormCitation,
+} from "./types.js";
+import { splitItalics } from "./italics.js";
+import { REPORTER_PATTERN, canonicalReporter } from "./reporters.js";
+
+/**
+ * Regex source for introductory signals (Bluebook Rule 1.2).
+ * Lowercase forms occur mid-sentence and inside string citations.
+ */
+export const SIGNAL_PATTERN =
+  "(?:[Ss]ee\\s+also|[Bb]ut\\s+see|[Bb]ut\\s+cf\\.|[Ss]ee,?\\s+e\\.g\\.,|[Ss]ee|[Cc]f\\.|[Aa]ccord,?|[Cc]ompare|[Ee]\\.g\\.,)";
+
+const LEADING_SIGNAL_RE = new RegExp(`^(${SIGNAL_PATTERN})\\s+`);
+
+// A leading signal with any italic markup around it: "*See, e.g.*, ", "<i>Cf.</i> ", "See also "
+const MARKED_SIGNAL_RE = new RegExp(
+  `^(?:\\*|<(?:i|em)>|\\\\(?:textit|emph)\\{|\\{\\\\i )?(?:[Ss]ee,?\\s+e\\.g\\.|[Ee]\\.g\\.|${SIGNAL_PATTERN})(?:\\*|<\\/(?:i|em)>|\\})?,?\\s+`
+);
+
+/** Citation text without its leading signal: "*See* Smith v. Jones, ..." -> "Smith v. Jones, ..." */
+export function stripSignal(text: string): string {
+  return text.replace(MARKED_SIGNAL_RE, "");
+}
+
+const PARTY = "[A-Z][A-Za-z'.]+(?:\\s+[A-Z][A-Za-z'.]+)*";
+const PIN = "\\d+(?:[\u2013-]\\d+)?";
+
+/** Case pinpoint, optionally to a footnote: "205", "205 n.3" */
+const CASE_PIN = `${PIN}(?:\\s+nn?\\.\\s*${PIN})?`;
+
+/** Pinpoint that may be a star page, as in database citations: "*3", "*3-4" */
+const STAR_PIN = "\\*?\\d+(?:[\u2013-]\\*?\\d+)?";
+
+/** Regex source for a docket number after "No.": "19-cv-1234", "1:19-cv-01234-ABC", "CV 19-1234" */
+export const DOCKET_PATTERN = "(?:[A-Z]{1,4}[\\s-]?)?\\d[\\dA-Za-z:]*(?:-[\\dA-Za-z]+)*";
+
+/** Regex source for a database identifier: "2020 WL 1234567", "2020 U.S. Dist. LEXIS 12345" */
+export const DATABASE_PATTERN = "\\d{4}\\s+(?:WL|(?:[A-Z][A-Za-z.]*\\s+){1,4}LEXIS)\\s+\\d+";
+
+const CASE_PARSE_RE = new RegExp(
+  `^((${PARTY})\\s+(?:v\\.|vs\\.?|v)\\s+(${PARTY})),?\\s+(\\d+)\\s+(${REPORTER_PATTERN})\\s+(\\d+)((?:,\\s*${CASE_PIN})*)(?:\\s*\\(([^)]*)\\))?`
+);
+
+// California Style Manual order, year (and court) right after the case name:
+// "People v. Smith (2000) 22 Cal.4th 1, 5", "Smith v. Jones (9th Cir. 2001) 250 F.3d 1"
+const CALIFORNIA_CASE_PARSE_RE = new RegExp(
+  `^((${PARTY})\\s+(?:v\\.|vs\\.?|v)\\s+(${PARTY})),?\\s*\\(([^()]*\\d{4})\\)\\s+(\\d+)\\s+(${REPORTER_PATTERN})\\s+(\\d+)((?:,\\s*${CASE_PIN})*)`
+);
+
+const UNREPORTED_PARSE_RE = new RegExp(
+  `^((${PARTY})\\s+(?:v\\.|vs\\.?|v)\\s+(${PARTY})),?\\s+(?:Nos?\\.\\s+(${DOCKET_PATTERN}),?\\s*)?(?:(${DATABASE_PATTERN})((?:,\\s*(?:at\\s+)?${STAR_PIN})*)|(slip\\s+op\\.)(?:\\s+at\\s+(${PIN}))?)?(?:\\s*\\(([^)]*)\\))?`
+);
+
+const STATUTE_PARSE_RE =
+  /^(\d+)\s+(U\.S\.C\.|C\.F\.R\.)\s*§+\s*(\d+(?:\.\d+)?)((?:\([a-zA-Z0-9]+\))*)(?:[\u2013-](\d+(?:\.\d+)?))?/;
+
+const SHORT_FORM_PARSE_RE = new RegExp(`^([A-Z][A-Za-z'.]+),\\s+(\\d+)\\s+(${REPORTER_PATTERN})\\s+at\\s+(${PIN})`);
+
+const UNREPORTED_SHORT_FORM_PARSE_RE = new RegExp(
+  `^([A-Z][A-Za-z'.]+),\\s+(?:(${DATABASE_PATTERN}),\\s+at\\s+(${STAR_PIN})|slip\\s+op\\.\\s+at\\s+(${PIN}))`
+);
+
+const ID_PARSE_RE = new RegExp(`^[Ii]d\\.(?:\\s+at\\s+(${STAR_PIN}(?:,\\s*${STAR_PIN})*))?`);
+
+const SUPRA_PARSE_RE = new RegExp(
+  `^(?:(${PARTY}),\\s+)?([Ss]upra|[Ii]nfra)\\s+(?:notes?\\s+(\\d+)(?:[\u2013-]\\d+)?|((?:Parts?|Sections?)\\s+[IVXLC\\d]+(?:\\.[A-Z0-9]+)*))(?:,\\s+at\\s+(${PIN}))?`
+);
+
+const HEREINAFTER_PARSE_RE = /^[[(]hereinafter\s+([^\])]+)[\])]/;
+
+function caseCitation(
+  caseName: string,
+  parties: [string, string],
+  volume: string,
+  reporter: string,
+  page: string,
+  pins: string,
+  paren: string | undefined
+): CaseCitation {
+  const citation: CaseCitation = {
+    kind: "case",
+    caseName,
+    parties,
+    volume: Number(volume),
+    reporter: canonicalReporter(reporter) ?? reporter,
+    firstPage: Number(page),
+    pincites: pins
+      .split(",")
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0),
+  };
+
+  if (paren !== undefined) {
+    // "(1st Cir. 1996)" -> court "1st Cir.", year 1996; "(1803)" -> year only
+    const yearMatch = /(\d{4})\s*$/.exec(paren);
+    if (yearMatch) {
+      citation.year = Number(yearMatch[1]);
+    }
+    const court = (yearMatch ? paren.slice(0, yearMatch.index) : paren).trim();
+    if (court.length > 0) {
+      citation.court = court;
+    }
+  }
+
+  return citation;
+}
+
+function parseCase(m: RegExpExecArray): CaseCitation {
+  const [, caseName, first, second, volume, reporter, page, pins, paren] = m;
+  return caseCitation(caseName, [first, second], volume, reporter, page, pins, paren);
+}
+
+function parseCaliforniaCase(m: RegExpExecArray): CaseCitation {
+  const [, caseName, first, second, paren, volume, reporter, page, pins] = m;
+  return caseCitation(caseName, [first, second], volume, reporter, page, pins, paren);
+}
+
+function parseUnreported(m: RegExpExecArray): UnreportedCitation {
+  const [, caseName, first, second, docket, database, pins, slip, slipPin, paren] = m;
+  const citation: UnreportedCitation = {
+    kind: "unreported",
+    caseName,
+    parties: [first, second],
+    slipOpinion: slip !== undefined,
+    pincites:
+      slipPin !== undefined
+        ? [slipPin]
+        : (pins ?? "")
+            .split(",")
+            .map((p) => p.trim().replace(/^at\s+/, ""))
+            .filter((p) => p.length > 0),
+  };
+  if (docket !== undefined) {
+    citation.docket = docket;
+  }
+  if (database !== undefined) {
+    citation.database = database.replace(/\s+/g, " ");
+  }
+
+  if (paren !== undefined) {
+    // "(S.D.N.Y. Jan. 5, 2020)" -> court "S.D.N.Y.", date "Jan. 5, 2020", year 2020
+    const dateMatch = /(?:[A-Z][a-z]{2,4}\.?\s+\d{1,2},\s+)?(\d{4})\s*$/.exec(paren);
+    if (dateMatch) {
+      citation.date = dateMatch[0].trim();
+      citation.year = Number(dateMatch[1]);
+    }
+    const court = (dateMatch ? paren.slice(0, dateMatch.index) : paren).trim();
+    if (court.length > 0) {
+      citation.court = court;
+    }
+  }
+
+  return citation;
+}
+
+function parseStatute(m: RegExpExecArray): StatuteCitation {
+  const [, title, code, section, subs, endSection] = m;
+  const citation: StatuteCitation = {
+    kind: "statute",
+    title: Number(title),
+    code,
+    section,
+    subsections: [...subs.matchAll(/\(([a-zA-Z0-9]+)\)/g)].map((s) => s[1]),
+  };
+  if (endSection !== undefined) {
+    citation.endSection = endSection;
+  }
+  return citation;
+}
+
+function parseShortForm(m: RegExpExecArray): ShortFormCitation {
+  const [, party, volume, reporter, pincite] = m;
+  return {
+    kind: "short-form",
+    party,
+    volume: Number(volume),
+    reporter: canonicalReporter(reporter) ?? reporter,
+    pincite,
+  };
+}
+
+function parseUnreportedShortForm(m: RegExpExecArray): UnreportedShortFormCitation {
+  const [, party, database, starPin, slipPin] = m;
+  return database !== undefined
+    ? { kind: "unreported-short-form", party, database: database.replace(/\s+/g, " "), pincite: starPin }
+    : { kind: "unreported-short-form", party, pincite: slipPin };
+}
+
+function parseId(m: RegExpExecArray): IdCitation {
+  return m[1] !== undefined ? { kind: "id", pincite: m[1] } : { kind: "id" };
+}
+
+function parseCrossReference(m: RegExpExecArray): SupraCitation | InfraCitation {
+  const [, author, direction, note, section, pincite] = m;
+  const citation: SupraCitation | InfraCitation = {
+    kind: direction.toLowerCase() === "supra" ? "supra" : "infra",
+  };
+  if (author !== undefined) {
+    citation.author = author;
+  }
+  if (note !== undefined) {
+    citation.note = Number(note);
+  }
+  if (section !== undefined) {
+    citation.section = section;
+  }
+  if (pincite !== undefined) {
+    citation.pincite = pincite;
+  }
+  return citation;
+}
+
+function parseHereinafter(m: RegExpExecArray): HereinafterCitation {
+  return { kind: "hereinafter", shortName: m[1].trim() };
+}
+
+/**
+ * Parse a single citation string into its components.
+ *
+ * Accepts the text of one extracted citation (optionally with a leading
+ * signal and italic markup). Only the leading citation is parsed; any
+ * trailing text is ignored. Returns `kind: "unknown"` when no parser matches.
+ */
+export function parseCitation(text: string): ParsedCitation {
+  // Strip italic markup (star-page pincites like "*3" are left alone)
+  let rest = splitItalics(text.trim())
+    .map((s) => s.text)
+    .join("");
+
+  let signal: string | undefined;
+  const signalMatch = LEADING_SIGNAL_RE.exec(rest);
+  if (signalMatch) {
+    signal = signalMatch[1].replace(/\s+/g, " ");
+    rest = rest.slice(signalMatch[0].length);
+  }
+
+  let parsed: ParsedCitation;
+  let m: RegExpExecArray | null;
+  if ((m = CASE_PARSE_RE.exec(rest))) {
+    parsed = parseCase(m);
+  } else if ((m = CALIFORNIA_CASE_PARSE_RE.exec(rest))) {
+    parsed = parseCaliforniaCase(m);
+  } else if ((m = UNREPORTED_PARSE_RE.exec(rest)) && (m[4] !== undefined || m[5] !== undefined)) {
+    parsed = parseUnreported(m);
+  } else if ((m = STATUTE_PARSE_RE.exec(rest))) {
+    parsed = parseStatute(m);
+  } else if ((m = SHORT_FORM_PARSE_RE.exec(rest))) {
+    parsed = parseShortForm(m);
+  } else if ((m = UNREPORTED_SHORT_FORM_PARSE_RE.exec(rest))) {
+    parsed = parseUnreportedShortForm(m);
+  } else if ((m = SUPRA_PARSE_RE.exec(rest))) {
+    parsed = parseCrossReference(m);
+  } else if ((m = HEREINAFTER_PARSE_RE.exec(rest))) {
+    parsed = parseHereinafter(m);
+  } else if ((m = ID_PARSE_RE.exec(rest))) {
+    parsed = parseId(m);
+  } else {
+    parsed = { kind: "unknown", text: rest };
+  }
+
+  if (signal !== undefined) {
+    parsed.signal = signal;
+  }
+  return parsed;
+}
@@ -1,40 +1,69 @@
 import type { Message } from "@lexstyle/llm-client";
-import type { CitationContext } from "./types.js";
+import type { CitationContext, PromptOptions } from "./types.js";
+import { STYLES } from "./styles.js";
 
 /**
  * Build the messages array for a single LLM call.
  *
- * System prompt contains Bluebook citation rules (sent once).
+ * System prompt contains the citation style's rules (sent once; Bluebook
+ * unless another style profile is given).
  * User prompt contains only the extracted citation contexts (compact).
+ * String citations are marked with their authority count so the LLM
+ * corrects them as a unit; footnote citations are marked with their
+ * footnote number; short forms are followed by the full citation
+ * they refer to, when one is known.
  */
 export function buildMessages(
   contexts: readonly CitationContext[],
-  rules?: string
+  rules?: string,
+  options: PromptOptions = {}
 ): Message[] {
   const ruleBlock = rules
     ? `\n${rules}\n`
     : "";
 
-  const system = `You are a legal citation expert specializing in Bluebook format (The Bluebook: A Uniform System of Citation).
+  const orderRule = options.reorderStringCitations
+    ? "- Reorder authorities within a string citation per Rule 1.4 (signals in Rule 1.3 order; within a signal, federal before state, higher courts before lower, then reverse chronological)"
+    : "- Do not reorder authorities within a string citation";
+
+  // Footnote rules only matter when the batch has footnote citations
+  const footnoteRule = contexts.some((ctx) => ctx.footnote !== undefined)
+    ? "\n- Citations marked \"footnote N\" appear in that footnote: use *Id.* only for the authority immediately preceding it in the same footnote, or in the preceding footnote if that footnote cites only one authority; use a case short form only within five footnotes of the last citation to the case (Rule 10.9(b)); \"supra note N\" must refer to an earlier footnote"
+    : "";
+
+  const responseFormat = options.explain
+    ? `For each citation you change, add "rule" (the rule you applied, e.g. "Rule 10.2.2" or "B10.1.1") and "explanation" (one short sentence saying what was wrong). Omit both for unchanged citations.
+Respond with ONLY a JSON array. No text outside the array, no markdown fences.
+Format: [{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. (1 Cranch) 137 (1803)","rule":"Rule 10.2.1","explanation":"Case names are italicized."}]`
+    : `Respond with ONLY a JSON array. No explanation, no markdown fences.
+Format: [{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. (1 Cranch) 137 (1803)"}]`;
+
+  const style = options.style ?? STYLES.bluebook;
+  const styleRules = [...style.typeface, ...style.rules].map((rule) => `- ${rule}`).join("\n");
+
+  const system = `You are a legal citation expert specializing in ${style.manual}.
 ${ruleBlock}
-Your task is to correct each citation below to proper Bluebook format.
+Your task is to correct each citation below to proper format.
 
-Key Bluebook rules to apply:
-- Case names italicized (use *asterisks* for italic markers)
-- Proper reporter abbreviations with correct spacing (e.g., "F.3d" not "F. 3d")
-- Correct use of "v." (not "vs." or "vs")
-- Proper pincite format with comma separators
-- Proper short-form citations (Id. rules)
-- Correct section symbols and spacing for statutes
-- Proper parenthetical format for court and year
+Key rules to apply:
+${styleRules}
+- Use *asterisks* for italic markers, even if the input uses other markup such as <i> or \\textit{}
+- Short forms and Id. must agree with the full citation they refer to (shown on an "antecedent" line after the citation); the antecedent line is context only, do not return an entry for it
+- String citations (marked "string citation") are corrected as one unit: authorities separated by semicolons, each later signal lowercase and italicized
+${orderRule}${footnoteRule}
 
 IMPORTANT: You must return exactly one entry for every id provided. Do not skip any.
 If a citation is already correctly formatted, return it unchanged.
-Respond with ONLY a JSON array. No explanation, no markdown fences.
-Format: [{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. (1 Cranch) 137 (1803)"}]`;
+${responseFormat}`;
 
   const user = contexts
-    .map((ctx) => `[${ctx.id}] \u201C${ctx.before}\u201D [${ctx.original}] \u201C${ctx.after}\u201D`)
+    .map((ctx) => {
+      const where = ctx.footnote !== undefined ? ` (footnote ${ctx.footnote})` : "";
+      const line = `[${ctx.id}]${where} \u201C${ctx.before}\u201D [${ctx.original}] \u201C${ctx.after}\u201D`;
+      const marked = ctx.members ? `${line} (string citation: ${ctx.members.length} authorities)` : line;
+      const antecedent = options.antecedents?.get(ctx.id);
+      return antecedent ? `${marked}\n    antecedent [${antecedent.id}]: ${antecedent.citation}` : marked;
+    })
     .join("\n");
 
   return [
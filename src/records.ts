@@ -0,0 +1,100 @@
+/**
+ * Record and court-document abbreviation table (Bluepages B17 and BT1).
+ *
+ * The extractor's record-citation regex is built from this table. Pass a
+ * different table (`recordDocuments`) to recognize a court's or a firm's own
+ * abbreviations; to extend the default, spread RECORD_DOCUMENTS.
+ */
+
+import { abbreviationPattern } from "./reporters.js";
+
+/** A record document cited by abbreviation and pin cite, e.g. "Compl. ¶ 5" */
+export interface RecordDocument {
+  /** Abbreviation as cited, e.g. "Mot. Summ. J." */
+  abbreviation: string;
+  /** Full name */
+  name: string;
+  /** A party may precede the abbreviation: "Def.'s Mot. Summ. J.", "Pls.' Br.", "Pet. App." */
+  named?: boolean;
+  /** A witness's name may precede the abbreviation: "Smith Dep." */
+  witness?: boolean;
+  /** An ordinary word too ("Answer", "Reply"): recognized only inside a parenthesized record citation */
+  parenthesized?: boolean;
+}
+
+export const RECORD_DOCUMENTS: readonly RecordDocument[] = [
+  { abbreviation: "R.", name: "Record" },
+  { abbreviation: "R.E.", name: "Record Excerpts" },
+  { abbreviation: "J.A.", name: "Joint Appendix" },
+  { abbreviation: "App.", name: "Appendix", named: true },
+  { abbreviation: "ECF No.", name: "Electronic Case Filing docket entry" },
+  { abbreviation: "Dkt. No.", name: "Docket entry" },
+  { abbreviation: "Compl.", name: "Complaint", named: true },
+  { abbreviation: "Answer", name: "Answer", named: true, parenthesized: true },
+  { abbreviation: "Mot. Summ. J.", name: "Motion for Summary Judgment", named: true },
+  { abbreviation: "Mot. Dismiss", name: "Motion to Dismiss", named: true },
+  { abbreviation: "Mem.", name: "Memorandum", named: true },
+  { abbreviation: "Opp'n", name: "Opposition", named: true },
+  { abbreviation: "Reply", name: "Reply", named: true, parenthesized: true },
+  { abbreviation: "Br.", name: "Brief", named: true },
+  { abbreviation: "Tr.", name: "Transcript", named: true },
+  { abbreviation: "Dep.", name: "Deposition", named: true, witness: true },
+  { abbreviation: "Decl.", name: "Declaration", named: true, witness: true },
+  { abbreviation: "Aff.", name: "Affidavit", named: true, witness: true },
+  { abbreviation: "Ex.", name: "Exhibit", named: true },
+];
+
+// A page number with an optional appendix letter ("3a"), but not a series
+// ordinal ("App. 3d", "App. 4th")
+const NUMBER = "\\d+(?!(?:d|st|nd|rd|th)(?![a-z]))[a-z]?";
+// A page, paragraph or page:line pin cite and its span: "12", "3a", "45:3–12"
+const PAGE = `${NUMBER}(?::\\d+)?(?:[\\u2013-]${NUMBER}(?::\\d+)?)?`;
+const PIN = `(?:at\\s+)?(?:¶¶?\\s*)?${PAGE}(?:,\\s*(?:at\\s+)?(?:¶¶?\\s*)?${PAGE})*`;
+
+// A party, possessive ("Def.'s", "Pls.'", "Gov't's") or as in "Pet. App."
+const PARTY =
+  "(?:(?:Defs?|Pls?)\\.['\\u2019]s?|(?:Pet['\\u2019]rs?|Resp['\\u2019]ts?|Gov['\\u2019]t|Appell(?:ant|ee)s?|Petitioners?|Respondents?)['\\u2019]s?|(?:Pet|Resp)\\.)";
+// A witness's name: "Smith Dep."
+const WITNESS = "[A-Z][A-Za-z'\\u2019-]*";
+
+/** Longest first so "Mot. Summ. J." wins over "Mot." */
+function alternation(documents: readonly RecordDocument[]): string {
+  return `(?:${[...documents]
+    .sort((a, b) => b.abbreviation.length - a.abbreviation.length)
+    .map((d) => abbreviationPattern(d.abbreviation))
+    .join("|")})`;
+}
+
+const cache = new WeakMap<readonly RecordDocument[], RegExp>();
+
+/** Pattern for one record citation to any of the documents */
+function recordPattern(documents: readonly RecordDocument[]): string {
+  const parts: string[] = [];
+  for (const [prefix, filter] of [
+    [`(?:${PARTY}\\s+)?`, (d: RecordDocument) => d.named && !d.witness],
+    [`(?:(?:${PARTY}|${WITNESS})\\s+)?`, (d: RecordDocument) => d.witness],
+    ["", (d: RecordDocument) => !d.named && !d.witness],
+  ] as const) {
+    const matching = documents.filter(filter);
+    if (matching.length > 0) parts.push(`${prefix}${alternation(matching)}`);
+  }
+  // An empty table matches nothing
+  return parts.length > 0 ? `(?:${parts.join("|")}),?\\s*${PIN}(?![A-Za-z\\d])` : "(?!)";
+}
+
+/**
+ * Regex matching record citations for a table of documents: bare
+ * ("J.A. 101", "ECF No. 34, at 5") or in parentheses, alone or several
+ * separated by semicolons ("(R. at 12; Tr. 45:3–12.)"). Documents marked
+ * `parenthesized` are matched only in parentheses.
+ */
+export function recordRegex(documents: readonly RecordDocument[]): RegExp {
+  let re = cache.get(documents);
+  if (!re) {
+    const record = recordPattern(documents);
+    const bare = recordPattern(documents.filter((d) => !d.parenthesized));
+    re = new RegExp(`\\(${record}(?:;\\s*${record})*\\.?\\)|\\b${bare}`, "g");
+    cache.set(documents, re);
+  }
+  return re;
+}
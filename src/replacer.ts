@@ -1,4 +1,14 @@
-import type { ApplyResult, CitationContext, CitationCorrection, Correction } from "./types.js";
+import type {
+  ApplyResult,
+  CitationContext,
+  CitationCorrection,
+  Correction,
+  CorrectionProposal,
+  CorrectionSource,
+} from "./types.js";
+
+/** Characters of surrounding text shown on each side of a correction */
+const SNIPPET_SIZE = 30;
 
 /**
  * Parse the LLM response into an array of CitationCorrection objects.
@@ -8,9 +18,29 @@ import type { ApplyResult, CitationContext, CitationCorrection, Correction } fro
  * 2. Bracket extraction: try each `[` position left-to-right paired with
  *    the last `]`, stop at first valid JSON array parse
  *
- * Validates that each correction contains a non-empty citation string.
+ * Validates that each correction contains a non-empty citation string, that
+ * the optional `rule` and `explanation` are non-empty strings, and that no id
+ * appears twice.
  */
 export function parseResponse(response: string): CitationCorrection[] {
+  const corrections = parseCorrections(response);
+
+  // Check for duplicate IDs
+  const seenIds = new Set<number>();
+  corrections.forEach((correction, idx) => {
+    if (seenIds.has(correction.id)) {
+      throw new Error(`Duplicate correction id ${correction.id} at index ${idx}`);
+    }
+    seenIds.add(correction.id);
+  });
+
+  return corrections;
+}
+
+/**
+ * Like parseResponse, but leaves duplicate ids for the caller to resolve.
+ */
+export function parseCorrections(response: string): CitationCorrection[] {
   // Strip markdown code fences if present
   let cleaned = response.trim();
   cleaned = cleaned.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/, "");
@@ -57,7 +87,6 @@ export function parseResponse(response: string): CitationCorrection[] {
   }
 
   // Validate and extract each item
-  const seenIds = new Set<number>();
   return parsed.map((item: unknown, idx: number) => {
     const rec = item as Record<string, unknown> | null;
     if (typeof rec !== "object" || rec === null || typeof rec.id !== "number" || typeof rec.citation !== "string") {
@@ -73,16 +102,32 @@ export function parseResponse(response: string): CitationCorrection[] {
       );
     }
 
-    // Check for duplicate IDs
-    if (seenIds.has(correction.id)) {
-      throw new Error(`Duplicate correction id ${correction.id} at index ${idx}`);
+    // Optional rule reference and explanation (null is treated as absent)
+    for (const field of ["rule", "explanation"] as const) {
+      const value = rec[field];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== "string" || value.trim().length === 0) {
+        throw new Error(
+          `Invalid ${field} at index ${idx} (id ${correction.id}): must be a non-empty string if present`
+        );
+      }
+      correction[field] = value.trim();
     }
-    seenIds.add(correction.id);
 
     return correction;
   });
 }
 
+/**
+ * Build a context snippet for audit.
+ * Legal citations are longer than single dashes — use wider context snippets.
+ */
+export function contextSnippet(ctx: CitationContext, replacement: string): string {
+  const snippetBefore = ctx.before.slice(-SNIPPET_SIZE);
+  const snippetAfter = ctx.after.slice(0, SNIPPET_SIZE);
+  return `${snippetBefore}[${ctx.original}\u2192${replacement}]${snippetAfter}`;
+}
+
 /**
  * Apply corrections to the original text.
  *
@@ -96,9 +141,9 @@ export function applyCorrections(
   corrections: readonly CitationCorrection[]
 ): ApplyResult {
   // Map corrections by id for lookup
-  const correctionMap = new Map<number, string>();
+  const correctionMap = new Map<number, CitationCorrection>();
   for (const c of corrections) {
-    correctionMap.set(c.id, c.citation);
+    correctionMap.set(c.id, c);
   }
 
   // Validate: every context must have a correction
@@ -117,11 +162,11 @@ export function applyCorrections(
   }
 
   // Build list of actual changes (where replacement differs from original)
-  const changes: { context: CitationContext; replacement: string }[] = [];
+  const changes: { context: CitationContext; correction: CitationCorrection }[] = [];
   for (const ctx of contexts) {
-    const replacement = correctionMap.get(ctx.id)!;
-    if (replacement !== ctx.original) {
-      changes.push({ context: ctx, replacement });
+    const correction = correctionMap.get(ctx.id)!;
+    if (correction.citation !== ctx.original) {
+      changes.push({ context: ctx, correction });
     }
   }
 
@@ -131,20 +176,18 @@ export function applyCorrections(
   let result = text;
   const appliedCorrections: Correction[] = [];
 
-  for (const { context: ctx, replacement } of changes) {
-    // Build a context snippet for audit
-    // Legal citations are longer than single dashes — use wider context snippets
-    const snippetBefore = ctx.before.slice(-30);
-    const snippetAfter = ctx.after.slice(0, 30);
-    const contextSnippet = `${snippetBefore}[${ctx.original}\u2192${replacement}]${snippetAfter}`;
-
+  for (const { context: ctx, correction } of changes) {
+    const { citation: replacement, source = "llm", rule, explanation } = correction;
     result = result.slice(0, ctx.start) + replacement + result.slice(ctx.end);
 
     appliedCorrections.push({
       position: ctx.start,
       original: ctx.original,
       replacement,
-      context: contextSnippet,
+      context: contextSnippet(ctx, replacement),
+      source,
+      ...(rule !== undefined && { rule }),
+      ...(explanation !== undefined && { explanation }),
     });
   }
 
@@ -153,3 +196,50 @@ export function applyCorrections(
 
   return { text: result, appliedCorrections };
 }
+
+/**
+ * Apply only the accepted proposals from proposeCorrections().
+ *
+ * Before writing, verifies that each accepted proposal's original span still
+ * matches the text, so a document edited since the proposals were made is
+ * never silently corrupted. Throws on a stale span or an unknown id.
+ */
+export function applySelected(
+  text: string,
+  proposals: readonly CorrectionProposal[],
+  acceptedIds: Iterable<number>
+): ApplyResult {
+  const byId = new Map(proposals.map((p) => [p.id, p]));
+  const accepted = new Set(acceptedIds);
+  for (const id of accepted) {
+    if (!byId.has(id)) {
+      throw new Error(`Unknown proposal id ${id}`);
+    }
+  }
+
+  const contexts: CitationContext[] = [];
+  const corrections: CitationCorrection[] = [];
+  for (const p of proposals) {
+    if (!accepted.has(p.id)) continue;
+
+    const end = p.position + p.original.length;
+    const current = text.slice(p.position, end);
+    if (current !== p.original) {
+      throw new Error(
+        `Proposal ${p.id} no longer matches the text at position ${p.position}: expected ${JSON.stringify(p.original)}, found ${JSON.stringify(current)}`
+      );
+    }
+
+    contexts.push({
+      id: p.id,
+      original: p.original,
+      before: text.slice(Math.max(0, p.position - SNIPPET_SIZE), p.position),
+      after: text.slice(end, end + SNIPPET_SIZE),
+      start: p.position,
+      end,
+    });
+    corrections.push({ id: p.id, citation: p.replacement, source: p.source, rule: p.rule, explanation: p.explanation });
+  }
+
+  return applyCorrections(text, contexts, corrections);
+}
@@ -0,0 +1,143 @@
+/**
+ * Reporter abbreviation table (Bluebook T1-style).
+ *
+ * Both the case-citation and short-form regexes in the extractor are built
+ * from this table, and the normalizer uses it to canonicalize reporter
+ * spacing. `courtRequired` marks reporters whose citations must name the
+ * court. To support a new reporter, add a row here.
+ */
+
+/** Broad grouping of a reporter, following the layout of Bluebook T1 */
+export type ReporterFamily = "federal" | "regional" | "state" | "specialty";
+
+/** A single reporter series */
+export interface Reporter {
+  /** Canonical Bluebook abbreviation, e.g. "F. Supp. 3d" */
+  abbreviation: string;
+  /** Full reporter name */
+  name: string;
+  family: ReporterFamily;
+  /** Common non-canonical spellings that spacing tolerance alone doesn't cover */
+  variants?: readonly string[];
+  /** Reports more than one court, so the parenthetical must name the court (Rule 10.4) */
+  courtRequired?: boolean;
+  /** State whose courts alone it reports, which the court parenthetical may then leave out (Rule 10.4(b)) */
+  state?: string;
+}
+
+export const REPORTERS: readonly Reporter[] = [
+  // Federal
+  { abbreviation: "U.S.", name: "United States Reports", family: "federal", variants: ["US", "U.S"] },
+  { abbreviation: "S. Ct.", name: "Supreme Court Reporter", family: "federal" },
+  { abbreviation: "L. Ed.", name: "Lawyers' Edition", family: "federal" },
+  { abbreviation: "L. Ed. 2d", name: "Lawyers' Edition, Second Series", family: "federal" },
+  { abbreviation: "F.", name: "Federal Reporter", family: "federal", courtRequired: true },
+  { abbreviation: "F.2d", name: "Federal Reporter, Second Series", family: "federal", courtRequired: true },
+  { abbreviation: "F.3d", name: "Federal Reporter, Third Series", family: "federal", courtRequired: true },
+  { abbreviation: "F.4th", name: "Federal Reporter, Fourth Series", family: "federal", courtRequired: true },
+  { abbreviation: "F. Supp.", name: "Federal Supplement", family: "federal", courtRequired: true },
+  { abbreviation: "F. Supp. 2d", name: "Federal Supplement, Second Series", family: "federal", courtRequired: true },
+  { abbreviation: "F. Supp. 3d", name: "Federal Supplement, Third Series", family: "federal", courtRequired: true },
+  { abbreviation: "F. App'x", name: "Federal Appendix", family: "federal", courtRequired: true },
+  { abbreviation: "F.R.D.", name: "Federal Rules Decisions", family: "federal", courtRequired: true },
+
+  // Regional
+  { abbreviation: "A.", name: "Atlantic Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "A.2d", name: "Atlantic Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "A.3d", name: "Atlantic Reporter, Third Series", family: "regional", courtRequired: true },
+  { abbreviation: "N.E.", name: "North Eastern Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "N.E.2d", name: "North Eastern Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "N.E.3d", name: "North Eastern Reporter, Third Series", family: "regional", courtRequired: true },
+  { abbreviation: "N.W.", name: "North Western Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "N.W.2d", name: "North Western Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "P.", name: "Pacific Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "P.2d", name: "Pacific Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "P.3d", name: "Pacific Reporter, Third Series", family: "regional", courtRequired: true },
+  { abbreviation: "S.E.", name: "South Eastern Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "S.E.2d", name: "South Eastern Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "S.W.", name: "South Western Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "S.W.2d", name: "South Western Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "S.W.3d", name: "South Western Reporter, Third Series", family: "regional", courtRequired: true },
+  { abbreviation: "So.", name: "Southern Reporter", family: "regional", courtRequired: true },
+  { abbreviation: "So. 2d", name: "Southern Reporter, Second Series", family: "regional", courtRequired: true },
+  { abbreviation: "So. 3d", name: "Southern Reporter, Third Series", family: "regional", courtRequired: true },
+
+  // Official state reports and state-specific unofficial reporters
+  { abbreviation: "Cal. Rptr.", name: "California Reporter", family: "state", courtRequired: true, state: "Cal." },
+  { abbreviation: "Cal. Rptr. 2d", name: "California Reporter, Second Series", family: "state", courtRequired: true, state: "Cal." },
+  { abbreviation: "Cal. Rptr. 3d", name: "California Reporter, Third Series", family: "state", courtRequired: true, state: "Cal." },
+  { abbreviation: "Cal. 4th", name: "California Reports, Fourth Series", family: "state", state: "Cal." },
+  { abbreviation: "Cal. 5th", name: "California Reports, Fifth Series", family: "state", state: "Cal." },
+  { abbreviation: "Cal. App. 4th", name: "California Appellate Reports, Fourth Series", family: "state", state: "Cal." },
+  { abbreviation: "Cal. App. 5th", name: "California Appellate Reports, Fifth Series", family: "state", state: "Cal." },
+  { abbreviation: "N.Y.S.2d", name: "New York Supplement, Second Series", family: "state", courtRequired: true, state: "N.Y." },
+  { abbreviation: "N.Y.S.3d", name: "New York Supplement, Third Series", family: "state", courtRequired: true, state: "N.Y." },
+  { abbreviation: "N.Y.2d", name: "New York Reports, Second Series", family: "state", state: "N.Y." },
+  { abbreviation: "N.Y.3d", name: "New York Reports, Third Series", family: "state", state: "N.Y." },
+  { abbreviation: "A.D.3d", name: "Appellate Division Reports, Third Series", family: "state", state: "N.Y." },
+  { abbreviation: "Misc. 3d", name: "New York Miscellaneous Reports, Third Series", family: "state", state: "N.Y." },
+  { abbreviation: "Ill. 2d", name: "Illinois Reports, Second Series", family: "state", state: "Ill." },
+  { abbreviation: "Ill. App. 3d", name: "Illinois Appellate Court Reports, Third Series", family: "state", state: "Ill." },
+  { abbreviation: "Ill. Dec.", name: "West's Illinois Decisions", family: "state", courtRequired: true, state: "Ill." },
+  { abbreviation: "Mass.", name: "Massachusetts Reports", family: "state", state: "Mass." },
+  { abbreviation: "Mass. App. Ct.", name: "Massachusetts Appeals Court Reports", family: "state", state: "Mass." },
+  { abbreviation: "Ohio St. 3d", name: "Ohio State Reports, Third Series", family: "state", state: "Ohio" },
+  { abbreviation: "Wash. 2d", name: "Washington Reports, Second Series", family: "state", state: "Wash." },
+  { abbreviation: "Wis. 2d", name: "Wisconsin Reports, Second Series", family: "state", state: "Wis." },
+  { abbreviation: "N.J.", name: "New Jersey Reports", family: "state", state: "N.J." },
+  { abbreviation: "N.J. Super.", name: "New Jersey Superior Court Reports", family: "state", state: "N.J." },
+  { abbreviation: "Pa.", name: "Pennsylvania State Reports", family: "state", state: "Pa." },
+
+  // Specialty
+  { abbreviation: "B.R.", name: "Bankruptcy Reporter", family: "specialty", courtRequired: true },
+  { abbreviation: "T.C.", name: "Reports of the United States Tax Court", family: "specialty" },
+  { abbreviation: "Fed. Cl.", name: "Federal Claims Reporter", family: "specialty" },
+  { abbreviation: "Ct. Cl.", name: "Court of Claims Reports", family: "specialty" },
+  { abbreviation: "Vet. App.", name: "Veterans Appeals Reporter", family: "specialty" },
+  { abbreviation: "M.J.", name: "Military Justice Reporter", family: "specialty", courtRequired: true },
+];
+
+/**
+ * Convert an abbreviation to a spacing-tolerant regex source.
+ *
+ * "F. Supp. 3d" matches "F.Supp.3d" and "F. Supp. 3d"; "F.3d" matches "F. 3d";
+ * an apostrophe matches a straight or curly one.
+ */
+export function abbreviationPattern(abbreviation: string): string {
+  return abbreviation
+    .split(" ")
+    .map((token) =>
+      token
+        .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\\\.(?=.)/g, "\\.\\s*")
+        .replace(/'/g, "['’]")
+    )
+    .join("\\s*");
+}
+
+/** Every spelling of every reporter, paired with its canonical abbreviation */
+const ALTERNATIVES = REPORTERS.flatMap((r) =>
+  [r.abbreviation, ...(r.variants ?? [])].map((spelling) => ({
+    abbreviation: r.abbreviation,
+    pattern: abbreviationPattern(spelling),
+    length: spelling.length,
+  }))
+)
+  // Longest first so "F. Supp. 3d" wins over "F. Supp." and "F."
+  .sort((a, b) => b.length - a.length);
+
+/** Regex source (non-capturing group) matching any reporter in the table */
+export const REPORTER_PATTERN = `(?:${ALTERNATIVES.map((a) => a.pattern).join("|")})`;
+
+const EXACT = ALTERNATIVES.map((a) => ({ abbreviation: a.abbreviation, re: new RegExp(`^${a.pattern}$`) }));
+
+/**
+ * Return the canonical abbreviation for a reporter spelling, or undefined
+ * if it is not in the table. A curly apostrophe in the input is preserved.
+ */
+export function canonicalReporter(text: string): string | undefined {
+  const hit = EXACT.find((e) => e.re.test(text));
+  if (!hit) return undefined;
+  return text.includes("’") ? hit.abbreviation.replace("'", "’") : hit.abbreviation;
+}
+
@@ -0,0 +1,137 @@
+/**
+ * Citation style profiles.
+ *
+ * A profile supplies the manual named in the system prompt, the typeface
+ * and formatting rules the LLM is told to apply, and any reporter spellings
+ * the deterministic normalizer should use instead of the Bluebook's. To
+ * define a custom profile, spread a built-in one and override its fields.
+ */
+
+import type { StyleName, StyleProfile } from "./types.js";
+
+/** Formatting rules shared by every Bluebook-based profile */
+const BLUEBOOK_RULES: readonly string[] = [
+  'Proper reporter abbreviations with correct spacing (e.g., "F.3d" not "F. 3d")',
+  'Correct use of "v." (not "vs." or "vs")',
+  "Proper pincite format with comma separators",
+  "Proper short-form citations (Id. rules)",
+  'Proper supra/infra cross-references (e.g., "Smith, *supra* note 12, at 45"; "*see infra* Part II"); never use supra for cases, statutes, or regulations',
+  '"Hereinafter" short names in brackets immediately after the full citation (e.g., "[hereinafter *Restatement*]")',
+  "Correct section symbols and spacing for statutes",
+  'Proper parenthetical format for court and year, with court abbreviations from tables T1 and T7 (e.g., "(9th Cir. 1999)", "(S.D.N.Y. 2010)", "(N.D. Cal. 2015)"); omit the court only when the reporter identifies it unambiguously (Rule 10.4)',
+  'Unreported decisions in a database: case name, docket number, database identifier, star-page pincite, and a parenthetical with the court and exact date: "Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)", "2020 U.S. Dist. LEXIS 12345, at *3" (Rules 10.8.1(a), 18.3.1)',
+  'Slip opinions: docket number, "slip op." and page, then court and exact date: "Smith v. Jones, No. 19-1234, slip op. at 5 (2d Cir. Jan. 5, 2020)"; short forms keep the identifier: "*Smith*, 2020 WL 1234567, at *4", "*Smith*, slip op. at 6", "*Id.* at *4" (Rules 10.8.1(b), 10.9)',
+  'Periodicals: author, *title*, volume, T13 journal abbreviation, first page, pincite, year: "John Doe, *Title*, 100 Harv. L. Rev. 1, 5 (1987)" (Rule 16)',
+  'Restatements and uniform acts with section, comment and publisher-year parenthetical: "Restatement (Second) of Torts § 402A cmt. c (Am. L. Inst. 1965)", "U.C.C. § 2-207 (Am. L. Inst. & Unif. L. Comm\'n 2002)" (Rule 12.9.4-.5)',
+  'Books and treatises: volume, full author names, *title*, section or page, edition and year: "5 Charles Alan Wright & Arthur R. Miller, *Federal Practice and Procedure* § 1216 (3d ed. 2004)" (Rule 15)',
+  'Internet sources: author, *title*, site name, date, URL: "Jane Roe, *Title*, SCOTUSblog (Mar. 3, 2020), https://..."; "(last visited ...)" only when the page has no date (Rule 18.2)',
+];
+
+/** Record and court-document citations in briefs and memoranda (Bluepages B17) */
+const RECORD_RULES: readonly string[] = [
+  'Record citations: document abbreviations per table BT1 ("R.", "Compl.", "Def.\'s Mot. Summ. J.", "Tr.", "J.A."), followed directly by the pin cite: "Def.\'s Mot. Summ. J. 3"; use "at" only where a bare number would be ambiguous, as in "R. at 12" (B17.1)',
+  'Record pin cites: paragraphs with "¶" or "¶¶" and a space ("Compl. ¶ 5"); transcripts by page and line with a colon ("Tr. 45:3–12"); spans with an en dash; never "p." or "pp." (B17.1.2)',
+  'Record citations in text are enclosed in parentheses; a parenthetical citation sentence ends with its period inside ("The light was red. (Tr. 45:3–12.)"), a parenthetical clause within a sentence takes none (B17.2)',
+  'Electronically filed documents: document name and pin cite, then the ECF number: "Def.\'s Mot. Dismiss 5, ECF No. 34" (B17.1.4)',
+];
+
+export const STYLES: Readonly<Record<StyleName, StyleProfile>> = {
+  bluebook: {
+    name: "bluebook",
+    manual: "Bluebook format (The Bluebook: A Uniform System of Citation)",
+    typeface: ["Case names italicized"],
+    rules: [...BLUEBOOK_RULES, ...RECORD_RULES],
+  },
+
+  bluepages: {
+    name: "bluepages",
+    manual: "Bluepages format for court documents and legal memoranda (The Bluebook: A Uniform System of Citation)",
+    typeface: [
+      "Case names, signals, and *id.* italicized or underscored (B2); mark either with asterisks",
+      "No large and small caps: statutes, books, and periodicals in ordinary roman type (B2)",
+    ],
+    rules: [
+      ...BLUEBOOK_RULES,
+      "Case names abbreviated in citations per Rule 10.2.2 and table T6 (B10.1.1)",
+      "Citation sentences follow the sentence they support; citation clauses are set off by commas (B1.1)",
+      ...RECORD_RULES,
+    ],
+  },
+
+  "law-review": {
+    name: "law-review",
+    manual: "Bluebook law review format (the Whitepages of The Bluebook: A Uniform System of Citation)",
+    typeface: [
+      "Case names in full citations in footnote citation sentences and clauses are roman, not italicized; italicize case names in textual sentences and in short forms (Rule 2.1(a))",
+      "Signals, *id.*, and explanatory phrases italicized (Rule 2.1(b)-(d))",
+      "Book authors and titles and periodical names belong in large and small caps (Rule 2.1(e)); plain text cannot show small caps, so leave them unmarked rather than italicizing them",
+    ],
+    rules: BLUEBOOK_RULES,
+  },
+
+  alwd: {
+    name: "alwd",
+    manual: "ALWD format (ALWD Guide to Legal Citation)",
+    typeface: ["Case names, signals, and *id.* italicized or underlined (ALWD Rule 1); mark either with asterisks"],
+    rules: [
+      'Reporter abbreviations from ALWD Appendix 1 with correct spacing (e.g., "F.3d" not "F. 3d")',
+      'Correct use of "v." (not "vs." or "vs")',
+      "Pinpoint references after the first page, separated by a comma (ALWD Rule 5)",
+      "Court and date parenthetical per ALWD Rule 12.6 and Appendix 4",
+      'Unreported cases in a database: case name, docket number, database identifier, star-page pinpoint, court and exact date: "Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)"; slip opinions with "slip op." and the page (ALWD Rule 12.12)',
+      "Proper short-form citations, including *id.* (ALWD Rule 11)",
+      '"Hereinafter" short names in brackets immediately after the full citation',
+      "Correct section symbols and spacing for statutes (ALWD Rule 6)",
+      'Periodicals: author, *title*, volume, journal abbreviation from ALWD Appendix 5, first page, pinpoint, year: "John Doe, *Title*, 100 Harv. L. Rev. 1, 5 (1987)" (ALWD Rule 21)',
+      'Restatements: "Restatement (Second) of Torts § 402A cmt. c (Am. L. Inst. 1965)" (ALWD Rule 23)',
+      'Books and treatises: volume, author, *title*, pinpoint, edition, publisher and year: "5 Charles Alan Wright & Arthur R. Miller, *Federal Practice and Procedure* § 1216 (3d ed., West 2004)" (ALWD Rule 20)',
+      'Websites: author, *title*, site owner, date, URL; "(accessed ...)" only when the page has no date (ALWD Rule 30)',
+    ],
+  },
+
+  california: {
+    name: "california",
+    manual: "California format (California Style Manual)",
+    typeface: ["Case names italicized"],
+    rules: [
+      "The year goes in parentheses immediately after the case name: *People v. Smith* (2000) 22 Cal.4th 1, 5",
+      "Reporter abbreviations without internal spaces: Cal.4th, Cal.App.5th, Cal.Rptr.3d, S.Ct., L.Ed.2d, F.Supp.3d",
+      'Correct use of "v." (not "vs." or "vs")',
+      "Pincites follow the first page after a comma",
+      "For non-California courts, the court designation goes inside the year parenthetical: (9th Cir. 2001)",
+      "Unpublished federal decisions: court, exact date and docket number in the parenthetical, then the database citation: *Smith v. Jones* (S.D.N.Y., Jan. 5, 2020, No. 19-cv-1234) 2020 WL 1234567, p. *3",
+      "Statutes: Civil Code section 1714, or in a citation (Civ. Code, § 1714, subd. (a))",
+      "Proper short-form citations (*Id.* and *Smith, supra*, 22 Cal.4th at p. 5)",
+      "Periodicals: author, title, year, volume, journal, page: Doe, *Title* (1987) 100 Harv. L.Rev. 1, 5",
+      "Restatements: Rest.2d Torts, § 402A, com. c",
+      "Treatises: 5 Witkin, Summary of Cal. Law (11th ed. 2017) Torts, § 1216",
+      "Internet sources: author, title (date) URL, with (as of date) when the page is undated",
+    ],
+    impliedCourtStates: ["Cal."],
+    reporters: {
+      "Cal. 4th": "Cal.4th",
+      "Cal. 5th": "Cal.5th",
+      "Cal. App. 4th": "Cal.App.4th",
+      "Cal. App. 5th": "Cal.App.5th",
+      "Cal. Rptr.": "Cal.Rptr.",
+      "Cal. Rptr. 2d": "Cal.Rptr.2d",
+      "Cal. Rptr. 3d": "Cal.Rptr.3d",
+      "S. Ct.": "S.Ct.",
+      "L. Ed.": "L.Ed.",
+      "L. Ed. 2d": "L.Ed.2d",
+      "F. Supp.": "F.Supp.",
+      "F. Supp. 2d": "F.Supp.2d",
+      "F. Supp. 3d": "F.Supp.3d",
+    },
+  },
+};
+
+/** Look up a built-in profile by name, or pass a custom profile through */
+export function resolveStyle(style: StyleName | StyleProfile | undefined): StyleProfile {
+  if (style === undefined) return STYLES.bluebook;
+  if (typeof style === "object") return style;
+  if (!Object.hasOwn(STYLES, style)) {
+    throw new Error(`Invalid style: ${style}. Must be one of ${Object.keys(STYLES).join(", ")}.`);
+  }
+  return STYLES[style];
+}
@@ -1,8 +1,159 @@
 import type { LlmOptions, Message } from "@lexstyle/llm-client";
+import type { RecordDocument } from "./records.js";
 
 // Re-export LLM types so existing consumers don't break
 export type { Message, Provider } from "@lexstyle/llm-client";
 
+/** Fields shared by every parsed citation */
+interface ParsedCitationBase {
+  /** Introductory signal, e.g. "See", "But see" */
+  signal?: string;
+}
+
+/** Full case citation: "Smith v. Jones, 100 F.3d 200, 205 (1st Cir. 1996)" */
+export interface CaseCitation extends ParsedCitationBase {
+  kind: "case";
+  /** Case name as written, e.g. "Smith v. Jones" */
+  caseName: string;
+  /** The two parties on either side of "v." */
+  parties: [string, string];
+  volume: number;
+  /** Canonical reporter abbreviation when known, else as written */
+  reporter: string;
+  firstPage: number;
+  /** Pinpoint pages, e.g. ["205"] or ["205–06"] */
+  pincites: string[];
+  /** Court from the parenthetical, e.g. "1st Cir." (absent for the Supreme Court) */
+  court?: string;
+  year?: number;
+}
+
+/** Statutory or regulatory citation: "42 U.S.C. § 1983(a)(1)" */
+export interface StatuteCitation extends ParsedCitationBase {
+  kind: "statute";
+  title: number;
+  /** Code abbreviation, e.g. "U.S.C." or "C.F.R." */
+  code: string;
+  section: string;
+  /** Parenthetical subsections in order, e.g. ["a", "1"] */
+  subsections: string[];
+  /** Last section of a range, e.g. "1985" in "§§ 1983-1985" */
+  endSection?: string;
+}
+
+/**
+ * Unreported decision (Rule 10.8.1): a database citation, a slip opinion
+ * or a pending case identified only by docket number.
+ * "Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)"
+ */
+export interface UnreportedCitation extends ParsedCitationBase {
+  kind: "unreported";
+  caseName: string;
+  parties: [string, string];
+  /** Docket number without "No.", e.g. "19-cv-1234" */
+  docket?: string;
+  /** Database identifier, e.g. "2020 WL 1234567" or "2020 U.S. Dist. LEXIS 12345" */
+  database?: string;
+  /** Whether the citation is to a slip opinion ("slip op. at 5") */
+  slipOpinion: boolean;
+  /** Pinpoint pages, star pages for databases: ["*3"] */
+  pincites: string[];
+  /** Court from the parenthetical, e.g. "S.D.N.Y." */
+  court?: string;
+  /** Exact date from the parenthetical, e.g. "Jan. 5, 2020" */
+  date?: string;
+  year?: number;
+}
+
+/** Short-form case citation: "Smith, 100 F.3d at 205" */
+export interface ShortFormCitation extends ParsedCitationBase {
+  kind: "short-form";
+  party: string;
+  volume: number;
+  reporter: string;
+  pincite: string;
+}
+
+/** Short form of an unreported decision: "Smith, 2020 WL 1234567, at *4" or "Smith, slip op. at 6" */
+export interface UnreportedShortFormCitation extends ParsedCitationBase {
+  kind: "unreported-short-form";
+  party: string;
+  /** Database identifier; absent for slip opinions */
+  database?: string;
+  pincite: string;
+}
+
+/** "Id." or "Id. at 205" (or a star page, "Id. at *4") */
+export interface IdCitation extends ParsedCitationBase {
+  kind: "id";
+  pincite?: string;
+}
+
+/** Fields shared by supra and infra cross-references */
+interface CrossReferenceBase extends ParsedCitationBase {
+  /** Author or short title before "supra", e.g. "Smith" */
+  author?: string;
+  /** Footnote referenced, e.g. 12 in "supra note 12" */
+  note?: number;
+  /** Part or section referenced, e.g. "Part II" */
+  section?: string;
+  pincite?: string;
+}
+
+/** "Smith, supra note 12, at 45" or "supra Part II" */
+export interface SupraCitation extends CrossReferenceBase {
+  kind: "supra";
+}
+
+/** "infra note 30" or "infra Part III" */
+export interface InfraCitation extends CrossReferenceBase {
+  kind: "infra";
+}
+
+/** "[hereinafter Restatement]" */
+export interface HereinafterCitation extends ParsedCitationBase {
+  kind: "hereinafter";
+  shortName: string;
+}
+
+/** String citation: several authorities separated by semicolons */
+export interface StringCitation extends ParsedCitationBase {
+  kind: "string";
+  /** Each member authority, in document order */
+  citations: ParsedCitation[];
+}
+
+/** Extracted text that none of the structured parsers recognized */
+export interface UnknownCitation extends ParsedCitationBase {
+  kind: "unknown";
+  text: string;
+}
+
+/** Structured form of a single citation, discriminated on `kind` */
+export type ParsedCitation =
+  | CaseCitation
+  | StatuteCitation
+  | UnreportedCitation
+  | ShortFormCitation
+  | UnreportedShortFormCitation
+  | IdCitation
+  | SupraCitation
+  | InfraCitation
+  | HereinafterCitation
+  | StringCitation
+  | UnknownCitation;
+
+/** One authority inside a string citation */
+export interface CitationMember {
+  /** The member's text, including its own signal */
+  original: string;
+  /** Start index in the original text */
+  start: number;
+  /** End index in the original text (exclusive) */
+  end: number;
+  parsed: ParsedCitation;
+}
+
 /** A citation occurrence extracted from the input text */
 export interface CitationContext {
   /** Unique identifier for this citation occurrence */
@@ -17,17 +168,32 @@ export interface CitationContext {
   start: number;
   /** End index in the original text (exclusive) */
   end: number;
+  /** Structured form of `original` (set by extractCitations) */
+  parsed?: ParsedCitation;
+  /** Member authorities, present only when this context is a string citation */
+  members?: CitationMember[];
+  /** Footnote the citation appears in (absent for body text); `start` and `end` are then offsets within that footnote */
+  footnote?: number;
 }
 
+/** Where a correction came from: the deterministic normalizer or the LLM */
+export type CorrectionSource = "rule" | "llm";
+
 /** LLM's correction for a single citation */
 export interface CitationCorrection {
   id: number;
   citation: string;
+  /** Origin of the correction (default: "llm") */
+  source?: CorrectionSource;
+  /** Bluebook rule behind the change, e.g. "Rule 10.2.2" or "B10.1.1" (with `explain`) */
+  rule?: string;
+  /** Short explanation of the change (with `explain`) */
+  explanation?: string;
 }
 
 /** A single correction applied to the text, for audit/review */
 export interface Correction {
-  /** Position in original text */
+  /** Position in original text (in the footnote's text when `footnote` is set) */
   position: number;
   /** The original citation string */
   original: string;
@@ -35,6 +201,35 @@ export interface Correction {
   replacement: string;
   /** Surrounding context snippet */
   context: string;
+  /** "rule" if the deterministic normalizer alone produced the replacement */
+  source: CorrectionSource;
+  /** Bluebook rule behind the change, e.g. "Rule 10.2.2" or "B10.1.1" (with `explain`) */
+  rule?: string;
+  /** Short explanation of the change (with `explain`) */
+  explanation?: string;
+  /** Footnote the citation appears in (bluebookifyDocument only; absent for body text) */
+  footnote?: number;
+}
+
+/** A correction proposed for review, not yet applied */
+export interface CorrectionProposal extends Correction {
+  /** Id of the citation this proposal changes; pass accepted ids to applySelected() */
+  id: number;
+}
+
+export interface ProposeResult {
+  /** Proposed changes in document order (citations needing no change are omitted) */
+  proposals: CorrectionProposal[];
+  /** Citation-history problems (orphaned short forms, ambiguous Id., ...) */
+  warnings: CitationWarning[];
+  /** Problems in LLM responses that were repaired rather than aborting the run */
+  responseWarnings: ResponseWarning[];
+  /** Repair requests sent to the LLM */
+  retries: RetryStats;
+  /** Citations answered from the cache vs. sent to the LLM (both 0 without a cache) */
+  cache: CacheStats;
+  /** LLM corrections that changed substantive data and were not applied */
+  rejected: RejectedCorrection[];
 }
 
 /** Result of applying corrections to text */
@@ -51,14 +246,285 @@ export interface BluebookifyResult {
   corrections: Correction[];
   /** True if no changes were needed */
   unchanged: boolean;
+  /** Citation-history problems (orphaned short forms, ambiguous Id., ...) */
+  warnings: CitationWarning[];
+  /** Problems in LLM responses that were repaired rather than aborting the run */
+  responseWarnings: ResponseWarning[];
+  /** Repair requests sent to the LLM */
+  retries: RetryStats;
+  /** Citations answered from the cache vs. sent to the LLM (both 0 without a cache) */
+  cache: CacheStats;
+  /** LLM corrections that changed substantive data and were not applied */
+  rejected: RejectedCorrection[];
+}
+
+/** Body text plus numbered footnotes, as in a law review article */
+export interface CitationDocument {
+  body: string;
+  /** Footnote texts in order; `footnotes[0]` is footnote 1 */
+  footnotes: string[];
+}
+
+/** Result returned by bluebookifyDocument */
+export interface BluebookifyDocumentResult {
+  /** The corrected body and footnotes */
+  document: CitationDocument;
+  /** Corrections applied; each position is within the body or its `footnote` */
+  corrections: Correction[];
+  /** True if no changes were needed */
+  unchanged: boolean;
+  /** Citation-history problems, including footnote rules (Id. across footnotes, supra notes, five-footnote rule) */
+  warnings: CitationWarning[];
+  /** Problems in LLM responses that were repaired rather than aborting the run */
+  responseWarnings: ResponseWarning[];
+  /** Repair requests sent to the LLM */
+  retries: RetryStats;
+  /** Citations answered from the cache vs. sent to the LLM (both 0 without a cache) */
+  cache: CacheStats;
+  /** LLM corrections that changed substantive data and were not applied */
+  rejected: RejectedCorrection[];
+}
+
+/** Kinds of citation-history problems reported by analyzeHistory */
+export type CitationWarningCode =
+  | "orphan-id"
+  | "id-after-string-citation"
+  | "orphan-short-form"
+  | "repeated-full-citation"
+  | "id-across-footnotes"
+  | "stale-short-form"
+  | "invalid-supra-note"
+  | "unknown-court"
+  | "missing-court";
+
+/** A problem found in the document's citations that was not auto-corrected */
+export interface CitationWarning {
+  code: CitationWarningCode;
+  /** Id of the citation context the warning is about */
+  citationId: number;
+  /** Position in original text (in the footnote's text when `footnote` is set) */
+  position: number;
+  /** Footnote the citation appears in (absent for body text) */
+  footnote?: number;
+  /** Human-readable description */
+  message: string;
+}
+
+/** Result of analyzeHistory */
+export interface CitationHistory {
+  /** Short-form, Id. or repeated citation context id -> id of the full citation it refers to */
+  antecedents: Map<number, number>;
+  warnings: CitationWarning[];
+}
+
+/** The full citation a short form refers to, as shown to the LLM */
+export interface Antecedent {
+  /** Context id of the full citation */
+  id: number;
+  /** Canonical full citation text */
+  citation: string;
+}
+
+export type ResponseWarningCode = "unexpected-id" | "duplicate-id";
+
+/** An LLM response problem that was dropped instead of aborting the run */
+export interface ResponseWarning {
+  code: ResponseWarningCode;
+  /** The offending correction id as returned by the LLM */
+  id: number;
+  /** Index of the batch whose response contained it */
+  batch: number;
+  message: string;
+}
+
+/** Repair requests sent across all batches */
+export interface RetryStats {
+  /** Re-asks after a response that could not be parsed */
+  parse: number;
+  /** Follow-up requests for ids a response left out */
+  missing: number;
+}
+
+/**
+ * A store for corrections, so unchanged citations are not re-sent to the LLM.
+ *
+ * Keys serialize the normalized citation, its context, the custom rules
+ * and the model; values are the LLM's answer. Either method may be sync or
+ * async.
+ */
+export interface CorrectionCache {
+  get(key: string): CachedCorrection | undefined | Promise<CachedCorrection | undefined>;
+  set(key: string, correction: CachedCorrection): void | Promise<void>;
+}
+
+/** A cached LLM answer for one citation */
+export type CachedCorrection = Pick<CitationCorrection, "citation" | "rule" | "explanation">;
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** An LLM correction withheld because it changed what the citation says */
+export interface RejectedCorrection {
+  /** Id of the citation */
+  id: number;
+  /** Position in original text */
+  position: number;
+  /** The original citation string */
+  original: string;
+  /** The correction the LLM proposed */
+  replacement: string;
+  /** What it changed, e.g. 'Changes or removes "137"' */
+  reasons: string[];
+  /** Footnote the citation appears in (absent for body text) */
+  footnote?: number;
+}
+
+export type StyleName = "bluebook" | "bluepages" | "law-review" | "alwd" | "california";
+
+/** A citation style: what the LLM is told and what the normalizer enforces */
+export interface StyleProfile {
+  /** Profile name (for custom profiles, any identifier) */
+  name: string;
+  /** The manual named in the system prompt, e.g. "California format (California Style Manual)" */
+  manual: string;
+  /** Italics, underscoring and small-caps rules for the system prompt */
+  typeface: readonly string[];
+  /** Formatting rules for the system prompt */
+  rules: readonly string[];
+  /** Reporter spellings that differ from the Bluebook's: canonical abbreviation -> this style's */
+  reporters?: Readonly<Record<string, string>>;
+  /** States whose courts this style leaves out of citations to the state's reporters, e.g. ["Cal."] */
+  impliedCourtStates?: readonly string[];
+}
+
+/** Options controlling the prompt built by buildMessages */
+export interface PromptOptions {
+  /** Ask the LLM to reorder authorities within string citations per Rule 1.4 */
+  reorderStringCitations?: boolean;
+  /** Citation id -> the full citation it refers to (for Id. and short forms) */
+  antecedents?: ReadonlyMap<number, Antecedent>;
+  /** Ask for a Bluebook rule reference and short explanation per changed citation */
+  explain?: boolean;
+  /** Citation style whose rules the prompt lists (default: Bluebook) */
+  style?: StyleProfile;
+}
+
+/**
+ * Italic markup used in corrected citations:
+ * markdown `*x*`, html `<i>x</i>`, html-em `<em>x</em>`,
+ * latex `\textit{x}`, latex-emph `\emph{x}`, rtf `{\i x}`, or plain (no marking).
+ */
+export type ItalicStyle = "markdown" | "html" | "html-em" | "latex" | "latex-emph" | "rtf" | "plain";
+
+/** Options for bluebookifyOffline */
+export interface BluebookifyOfflineOptions {
+  /** Characters of context on each side of a citation (default: 100) */
+  contextSize?: number;
+  /** Record document abbreviations to recognize, e.g. "Compl." (default: RECORD_DOCUMENTS) */
+  recordDocuments?: readonly RecordDocument[];
+  /** Citation style, a built-in name or a custom profile (default: "bluebook") */
+  style?: StyleName | StyleProfile;
+}
+
+/** Per-call options passed to a custom `llm` function */
+export interface LlmCallOptions {
+  /** Aborts when the run is cancelled; pass it on to fetch() or your SDK */
+  signal?: AbortSignal;
+}
+
+/** A custom LLM function: receives messages, returns the raw text response */
+export type LlmFunction = (messages: Message[], options?: LlmCallOptions) => Promise<string>;
+
+/** Reported to `onProgress` after each batch */
+export interface BluebookifyProgress {
+  batchesDone: number;
+  totalBatches: number;
+  /** Citations with a correction so far, including cache hits */
+  citationsDone: number;
+  totalCitations: number;
 }
 
 /** Options for bluebookify */
 export interface BluebookifyOptions extends LlmOptions {
   /** Characters of context on each side of a citation (default: 100) */
   contextSize?: number;
+  /** Record document abbreviations to recognize, e.g. "Compl." (default: RECORD_DOCUMENTS) */
+  recordDocuments?: readonly RecordDocument[];
   /** Custom rules to prepend to the system prompt */
   rules?: string;
+  /** Citation style, a built-in name or a custom profile (default: "bluebook") */
+  style?: StyleName | StyleProfile;
   /** Maximum citations per LLM call (default: 20). Must be >= 1. */
   batchSize?: number;
+  /** Maximum LLM calls in flight at once (default: 1). Must be >= 1. */
+  concurrency?: number;
+  /** Repair requests allowed per batch for malformed or incomplete responses (default: 2) */
+  maxRetries?: number;
+  /** Reuse corrections for citations seen before (see createMemoryCache, createFileCache) */
+  cache?: CorrectionCache;
+  /** Reorder authorities within string citations per Rule 1.4 (default: false) */
+  reorderStringCitations?: boolean;
+  /** Italic markup for corrected citations (default: "markdown") */
+  italicStyle?: ItalicStyle;
+  /** Ask the LLM for the Bluebook rule and a short explanation behind each change (default: false) */
+  explain?: boolean;
+  /** Apply LLM corrections that change numbers or party names instead of rejecting them (default: false) */
+  allowSubstantiveChanges?: boolean;
+  /** Custom LLM function; receives `{ signal }` as its second argument. Overrides apiKey/provider/model. */
+  llm?: LlmFunction;
+  /** Called after each batch completes */
+  onProgress?: (progress: BluebookifyProgress) => void;
+  /** Cancels the run: no further batches start and the call rejects with BluebookifyAbortError */
+  signal?: AbortSignal;
+}
+
+/** Options for estimate: the ones that shape what is sent to the LLM */
+export type EstimateOptions = Pick<
+  BluebookifyOptions,
+  "contextSize" | "recordDocuments" | "rules" | "style" | "batchSize" | "reorderStringCitations" | "explain"
+>;
+
+/** One planned LLM call */
+export interface BatchEstimate {
+  /** Ids of the citations in this batch */
+  citationIds: number[];
+  /** The exact messages that would be sent */
+  messages: Message[];
+  /** Approximate prompt tokens (~4 characters per token) */
+  promptTokens: number;
+}
+
+/** Result returned by estimate */
+export interface Estimate {
+  /** Number of citations found */
+  citations: number;
+  /** One entry per LLM call, in order */
+  batches: BatchEstimate[];
+  /** Approximate prompt tokens across all batches */
+  promptTokens: number;
+}
+
+/** Options for bluebookifyDocx (italics are always written as real italic runs) */
+export type BluebookifyDocxOptions = Omit<BluebookifyOptions, "italicStyle">;
+
+/** Result returned by bluebookifyDocx */
+export interface BluebookifyDocxResult {
+  /** The corrected .docx package (the input bytes if nothing changed) */
+  buffer: Uint8Array;
+  /** Corrections applied; positions refer to the document's extracted text */
+  corrections: Correction[];
+  /** True if no changes were needed */
+  unchanged: boolean;
+  /** Citation-history problems (orphaned short forms, ambiguous Id., ...) */
+  warnings: CitationWarning[];
+  /** Problems in LLM responses that were repaired rather than aborting the run */
+  responseWarnings: ResponseWarning[];
+  /** Repair requests sent to the LLM */
+  retries: RetryStats;
+  /** Citations answered from the cache vs. sent to the LLM (both 0 without a cache) */
+  cache: CacheStats;
+  /** LLM corrections that changed substantive data and were not applied */
+  rejected: RejectedCorrection[];
 }
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { cacheKey, createMemoryCache } from "../src/cache.js";
+
+const parts = {
+  citation: "42 U.S.C. § 1983",
+  before: "Under ",
+  after: ", plaintiffs",
+  antecedent: undefined,
+  footnote: undefined,
+  rules: undefined,
+  model: "gpt-4o-mini",
+  reorderStringCitations: false,
+  explain: false,
+  style: "bluebook",
+};
+
+describe("cacheKey", () => {
+  it("is stable for the same inputs", () => {
+    expect(cacheKey(parts)).toBe(cacheKey({ ...parts }));
+  });
+
+  it("changes with the citation, context, rules, model or style", () => {
+    const base = cacheKey(parts);
+    expect(cacheKey({ ...parts, citation: "42 U.S.C. § 1985" })).not.toBe(base);
+    expect(cacheKey({ ...parts, after: ", defendants" })).not.toBe(base);
+    expect(cacheKey({ ...parts, rules: "Use small caps" })).not.toBe(base);
+    expect(cacheKey({ ...parts, model: "gpt-4o" })).not.toBe(base);
+    expect(cacheKey({ ...parts, style: "california" })).not.toBe(base);
+  });
+});
+
+describe("createMemoryCache", () => {
+  it("returns what was set", () => {
+    const cache = createMemoryCache();
+    expect(cache.get("k")).toBeUndefined();
+    const correction = { citation: "42 U.S.C. § 1983", rule: "Rule 12.9" };
+    cache.set("k", correction);
+    expect(cache.get("k")).toEqual(correction);
+  });
+});
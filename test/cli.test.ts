@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { runCli, type CliIo } from "../src/cli.js";
+
+/** Helper: in-memory I/O with the given files and stdin */
+function memoryIo(files: Record<string, string> = {}, stdin = "") {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIo = {
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    writeFile: async (path, data) => {
+      files[path] = data;
+    },
+    readStdin: async () => stdin,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    env: {},
+  };
+  return { io, files, stdout: () => out.join(""), stderr: () => err.join("") };
+}
+
+const MESSY = "See Marbury vs. Madison, 5 US 137 (1803).\n";
+const CLEAN = "See Marbury v. Madison, 5 U.S. 137 (1803).\n";
+
+describe("runCli", () => {
+  it("prints corrected stdin to stdout", async () => {
+    const m = memoryIo({}, MESSY);
+    expect(await runCli(["--offline"], m.io)).toBe(0);
+    expect(m.stdout()).toBe(CLEAN);
+  });
+
+  it("writes files in place with --write", async () => {
+    const m = memoryIo({ "brief.md": MESSY });
+    expect(await runCli(["--offline", "--write", "brief.md"], m.io)).toBe(0);
+    expect(m.files["brief.md"]).toBe(CLEAN);
+    expect(m.stdout()).toBe("");
+  });
+
+  it("prints a unified diff with --diff", async () => {
+    const m = memoryIo({ "brief.md": MESSY });
+    expect(await runCli(["--offline", "--diff", "brief.md"], m.io)).toBe(0);
+    expect(m.stdout()).toContain("--- a/brief.md\n+++ b/brief.md\n");
+    expect(m.stdout()).toContain("-See Marbury vs. Madison, 5 US 137 (1803).\n+See Marbury v. Madison, 5 U.S. 137 (1803).");
+  });
+
+  it("exits 1 in --check mode when citations would change, without writing", async () => {
+    const m = memoryIo({ "brief.md": MESSY });
+    expect(await runCli(["--offline", "--check", "--write", "brief.md"], m.io)).toBe(1);
+    expect(m.files["brief.md"]).toBe(MESSY);
+    expect(m.stderr()).toContain("brief.md: 1 citation(s) would change");
+  });
+
+  it("exits 0 in --check mode when nothing would change", async () => {
+    const m = memoryIo({ "brief.md": CLEAN });
+    expect(await runCli(["--offline", "--check", "brief.md"], m.io)).toBe(0);
+    expect(m.stdout()).toBe("");
+  });
+
+  it("prints citation warnings to stderr", async () => {
+    const m = memoryIo({}, "The court agreed. Id. at 5.");
+    await runCli(["--offline"], m.io);
+    expect(m.stderr()).toContain("<stdin>:18: warning: Id. has no preceding authority");
+  });
+
+  it("prints a cost estimate without an LLM", async () => {
+    const m = memoryIo({ "brief.md": MESSY });
+    expect(await runCli(["--estimate", "brief.md"], m.io)).toBe(0);
+    expect(m.stdout()).toMatch(/^brief\.md: 1 citation\(s\), 1 batch\(es\), ~\d+ prompt tokens\n$/);
+  });
+
+  it("applies a citation style with --style", async () => {
+    const m = memoryIo({}, "See Smith v. Jones, 22 Cal. 4th 1 (2000).\n");
+    expect(await runCli(["--offline", "--style", "california"], m.io)).toBe(0);
+    expect(m.stdout()).toBe("See Smith v. Jones, 22 Cal.4th 1 (2000).\n");
+  });
+
+  it("exits 2 on an unknown style", async () => {
+    const m = memoryIo({}, MESSY);
+    expect(await runCli(["--offline", "--style", "chicago"], m.io)).toBe(2);
+    expect(m.stderr()).toContain("Invalid style: chicago");
+  });
+
+  it("prints usage with --help", async () => {
+    const m = memoryIo();
+    expect(await runCli(["--help"], m.io)).toBe(0);
+    expect(m.stdout()).toContain("Usage: bluebookify");
+  });
+
+  it("exits 2 on an unknown flag", async () => {
+    const m = memoryIo();
+    expect(await runCli(["--bogus"], m.io)).toBe(2);
+    expect(m.stderr()).toContain("Usage: bluebookify");
+  });
+
+  it("rejects --write with stdin", async () => {
+    const m = memoryIo();
+    expect(await runCli(["--offline", "--write"], m.io)).toBe(2);
+  });
+
+  it("exits 2 when no LLM is configured", async () => {
+    const m = memoryIo({}, MESSY);
+    expect(await runCli([], m.io)).toBe(2);
+    expect(m.stderr()).toContain("bluebookify:");
+  });
+
+  it("exits 2 when a rules file is missing", async () => {
+    const m = memoryIo({}, MESSY);
+    expect(await runCli(["-k", "sk-test", "-p", "openai", "-r", "missing.txt"], m.io)).toBe(2);
+    expect(m.stderr()).toContain("ENOENT");
+  });
+});
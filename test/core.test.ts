@@ -1,6 +1,16 @@
 import { describe, it, expect, vi } from "vitest";
-import { bluebookify } from "../src/core.js";
-import type { Message } from "../src/types.js";
+import {
+  BluebookifyAbortError,
+  bluebookify,
+  bluebookifyDocument,
+  bluebookifyOffline,
+  estimate,
+  proposeCorrections,
+} from "../src/core.js";
+import { applySelected } from "../src/replacer.js";
+import { createMemoryCache } from "../src/cache.js";
+import { STYLES } from "../src/styles.js";
+import type { BluebookifyProgress, LlmCallOptions, Message } from "../src/types.js";
 
 /** Helper: create a mock LLM that returns the given responses in order */
 function mockLlm(responses: string[]) {
@@ -24,6 +34,13 @@ describe("bluebookify", () => {
     expect(result.unchanged).toBe(false);
   });
 
+  it("replaces a whole Federal Register citation whose page has no comma", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"85 Fed. Reg. 12,345 (Mar. 3, 2020)"}]']);
+    const result = await bluebookify("85 Fed. Reg. 12345 (Mar. 3, 2020).", { llm });
+    expect(result.text).toBe("85 Fed. Reg. 12,345 (Mar. 3, 2020).");
+    expect(result.rejected).toEqual([]);
+  });
+
   it("returns unchanged when no citations in text, LLM not called", async () => {
     const llm = mockLlm([]);
     const result = await bluebookify("This paragraph has no legal citations.", { llm });
@@ -69,18 +86,21 @@ describe("bluebookify", () => {
     expect(result.unchanged).toBe(true);
   });
 
-  it("rejects LLM response with IDs from a different batch", async () => {
+  it("drops IDs from a different batch with a warning", async () => {
     const text =
       "First 42 U.S.C. § 1983 and 28 U.S.C. § 1331 and Id. at 100.";
-    // Batch 2 returns id 0 (belongs to batch 1) instead of id 2
+    // Batch 2 returns id 0 (belongs to batch 1) alongside id 2
     const llm = mockLlm([
       '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"}]',
-      '[{"id":0,"citation":"42 U.S.C. § 1983"}]',
+      '[{"id":0,"citation":"WRONG"},{"id":2,"citation":"Id. at 100"}]',
     ]);
 
-    await expect(bluebookify(text, { llm, batchSize: 2 })).rejects.toThrow(
-      "unexpected id 0"
-    );
+    const result = await bluebookify(text, { llm, batchSize: 2 });
+
+    expect(result.text).toBe(text);
+    expect(result.responseWarnings).toEqual([
+      { code: "unexpected-id", id: 0, batch: 1, message: expect.stringContaining("unexpected id 0") },
+    ]);
   });
 
   it("rejects LLM response missing an ID from its batch", async () => {
@@ -92,7 +112,7 @@ describe("bluebookify", () => {
       '[{"id":2,"citation":"Id. at 100"}]',
     ]);
 
-    await expect(bluebookify(text, { llm, batchSize: 2 })).rejects.toThrow(
+    await expect(bluebookify(text, { llm, batchSize: 2, maxRetries: 0 })).rejects.toThrow(
       "missing correction for id 1"
     );
   });
@@ -202,7 +222,7 @@ describe("bluebookify", () => {
   it("rejects empty citation from LLM", async () => {
     const text = "Under 42 U.S.C. § 1983, plaintiffs may sue.";
     const llm = mockLlm(['[{"id":0,"citation":""}]']);
-    await expect(bluebookify(text, { llm })).rejects.toThrow("Empty citation");
+    await expect(bluebookify(text, { llm, maxRetries: 0 })).rejects.toThrow("Empty citation");
   });
 
   it("handles multiple corrections across the text", async () => {
@@ -217,4 +237,704 @@ describe("bluebookify", () => {
     expect(result.corrections.length).toBeGreaterThanOrEqual(1);
     expect(result.unchanged).toBe(false);
   });
+
+  it("sends normalized citations to the LLM and tags rule-only fixes", async () => {
+    const text = "Under 42 U.S.C. §1983, plaintiffs may sue.";
+    const llm = mockLlm(['[{"id":0,"citation":"42 U.S.C. § 1983"}]']);
+    const result = await bluebookify(text, { llm });
+
+    expect(llm.mock.calls[0][0][1].content).toContain("[42 U.S.C. § 1983]");
+    expect(result.text).toBe("Under 42 U.S.C. § 1983, plaintiffs may sue.");
+    expect(result.corrections).toHaveLength(1);
+    expect(result.corrections[0].source).toBe("rule");
+  });
+
+  it("tags corrections the LLM changed beyond normalization as llm", async () => {
+    const text = "as held in Marbury vs. Madison, 5 US 137 (1803), the Court";
+    const llm = mockLlm(['[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 137 (1803)"}]']);
+    const result = await bluebookify(text, { llm });
+
+    expect(llm.mock.calls[0][0][1].content).toContain("[Marbury v. Madison, 5 U.S. 137 (1803)]");
+    expect(result.corrections[0].original).toBe("Marbury vs. Madison, 5 US 137 (1803)");
+    expect(result.corrections[0].source).toBe("llm");
+  });
+});
+
+describe("italicStyle", () => {
+  const text = "The court held in Marbury v. Madison, 5 U.S. 137 (1803) that";
+  const response = '[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 137 (1803)"}]';
+
+  it("writes html italics", async () => {
+    const result = await bluebookify(text, { llm: mockLlm([response]), italicStyle: "html" });
+    expect(result.text).toBe("The court held in <i>Marbury v. Madison</i>, 5 U.S. 137 (1803) that");
+  });
+
+  it("writes latex italics", async () => {
+    const result = await bluebookify(text, { llm: mockLlm([response]), italicStyle: "latex-emph" });
+    expect(result.corrections[0].replacement).toBe("\\emph{Marbury v. Madison}, 5 U.S. 137 (1803)");
+  });
+
+  it("writes rtf italics", async () => {
+    const result = await bluebookify(text, { llm: mockLlm([response]), italicStyle: "rtf" });
+    expect(result.text).toBe("The court held in {\\i Marbury v. Madison}, 5 U.S. 137 (1803) that");
+  });
+
+  it("strips italics in plain mode", async () => {
+    const result = await bluebookify(text, { llm: mockLlm([response]), italicStyle: "plain" });
+    expect(result.text).toBe(text);
+    expect(result.unchanged).toBe(true);
+  });
+
+  it("treats an LLM echo of the input's own markup as no change", async () => {
+    const html = "The court held in <i>Marbury v. Madison</i>, 5 U.S. 137 (1803) that";
+    const result = await bluebookify(html, { llm: mockLlm([response]), italicStyle: "html" });
+    expect(result.unchanged).toBe(true);
+  });
+
+  it("throws on unknown italicStyle", async () => {
+    await expect(
+      bluebookify(text, { llm: mockLlm([]), italicStyle: "docx" as any })
+    ).rejects.toThrow("Invalid italicStyle");
+  });
+});
+
+describe("citation history warnings", () => {
+  it("reports orphaned short forms on the result", async () => {
+    const text = "The court held that. Smith, 456 F.3d at 792.";
+    const llm = mockLlm(['[{"id":0,"citation":"*Smith*, 456 F.3d at 792"}]']);
+    const result = await bluebookify(text, { llm });
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].code).toBe("orphan-short-form");
+  });
+
+  it("returns no warnings when there are no citations", async () => {
+    const result = await bluebookify("No citations here.", { llm: mockLlm([]) });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("reports warnings in offline mode", () => {
+    const result = bluebookifyOffline("The court agreed. Id. at 5.");
+    expect(result.warnings.map((w) => w.code)).toEqual(["orphan-id"]);
+  });
+});
+
+describe("authority registry", () => {
+  it("sends the antecedent full citation with a short form in a later batch", async () => {
+    const text =
+      "As held in Smith vs. Jones, 456 F.3d 789 (2d Cir. 2006), the court held X. Under 42 U.S.C. § 1983, Y. Smith, 456 F.3d at 792.";
+    const llm = mockLlm([
+      '[{"id":0,"citation":"*Smith v. Jones*, 456 F.3d 789 (2d Cir. 2006)"},{"id":1,"citation":"42 U.S.C. § 1983"}]',
+      '[{"id":2,"citation":"*Smith*, 456 F.3d at 792"}]',
+    ]);
+    await bluebookify(text, { llm, batchSize: 2 });
+
+    const batch2 = llm.mock.calls[1][0][1].content;
+    expect(batch2).toContain("antecedent [0]: Smith v. Jones, 456 F.3d 789 (2d Cir. 2006)");
+    expect(llm.mock.calls[0][0][1].content).not.toContain("antecedent");
+  });
+
+  it("sends the antecedent for Id.", async () => {
+    const text = "Under 42 U.S.C. § 1983, plaintiffs may sue. Id. at 5.";
+    const llm = mockLlm(['[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"*Id.* at 5"}]']);
+    await bluebookify(text, { llm });
+    expect(llm.mock.calls[0][0][1].content).toContain("antecedent [0]: 42 U.S.C. § 1983");
+  });
+
+  it.each(["See", "*See, e.g.*,", "<i>Cf.</i>"])("sends the antecedent without its signal %s", async (signal) => {
+    const text = `${signal} Smith v. Jones, 456 F.3d 789 (2d Cir. 2006). Id. at 792.`;
+    const { batches } = estimate(text);
+    expect(batches[0].messages[1].content).toContain("antecedent [0]: Smith v. Jones, 456 F.3d 789 (2d Cir. 2006)");
+  });
+});
+
+describe("string citations", () => {
+  const text =
+    "The rule is settled. See Doe v. Roe, 3 F.4th 4 (2d Cir. 2021); Smith v. Jones, 1 F.3d 2 (9th Cir. 1993). Next";
+
+  it("sends a string citation as one marked context and replaces it atomically", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"*See* *Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993); *Doe v. Roe*, 3 F.4th 4 (2d Cir. 2021)"}]',
+    ]);
+    const result = await bluebookify(text, { llm, reorderStringCitations: true });
+
+    const [system, user] = llm.mock.calls[0][0];
+    expect(system.content).toContain("Reorder authorities within a string citation per Rule 1.4");
+    expect(user.content).toContain("(string citation: 2 authorities)");
+    expect(result.text).toBe(
+      "The rule is settled. *See* *Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993); *Doe v. Roe*, 3 F.4th 4 (2d Cir. 2021). Next"
+    );
+    expect(result.corrections).toHaveLength(1);
+  });
+
+  it("tells the LLM not to reorder by default", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm });
+    expect(llm.mock.calls[0][0][0].content).toContain("Do not reorder authorities");
+  });
+});
+
+describe("bluebookifyOffline", () => {
+  it("fixes mechanical errors without an LLM", () => {
+    const text = "as held in Marbury vs. Madison, 5 US 137 (1803), and under 42 U.S.C. §1983, the Court";
+    const result = bluebookifyOffline(text);
+
+    expect(result.text).toBe(
+      "as held in Marbury v. Madison, 5 U.S. 137 (1803), and under 42 U.S.C. § 1983, the Court"
+    );
+    expect(result.corrections).toHaveLength(2);
+    expect(result.corrections.every((c) => c.source === "rule")).toBe(true);
+    expect(result.unchanged).toBe(false);
+  });
+
+  it("returns unchanged when citations are already clean", () => {
+    const text = "See Smith v. Jones, 456 F.3d 789 (2d Cir. 2006).";
+    const result = bluebookifyOffline(text);
+    expect(result.text).toBe(text);
+    expect(result.unchanged).toBe(true);
+  });
+
+  it("fixes court abbreviations and warns about missing or unknown courts", () => {
+    const text = "See Smith v. Jones, 1 F.3d 2 (9th Circuit 1999); Doe v. Roe, 3 A.3d 4 (2010); Poe v. Ames, 5 F.4th 6 (Foo Ct. 2021).";
+    const result = bluebookifyOffline(text);
+
+    expect(result.text).toContain("(9th Cir. 1999)");
+    expect(result.corrections).toHaveLength(1);
+    expect(result.warnings.map((w) => w.code)).toEqual(["missing-court", "unknown-court"]);
+    expect(result.warnings[0]).toMatchObject({ citationId: 0, position: text.indexOf("Doe") });
+    expect(result.warnings[1].message).toContain('"Foo Ct."');
+  });
+
+  it("throws on invalid contextSize", () => {
+    expect(() => bluebookifyOffline("text", { contextSize: -1 })).toThrow("Invalid contextSize");
+  });
+});
+
+describe("review mode", () => {
+  const text = "as held in Smith v Jones, 1 F.3d 2 (9th Cir. 1993), and under 42 U.S.C. § 1983, and Doe v Roe, 3 F.4th 4 (2d Cir. 2021).";
+  const responses = [
+    '[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"},' +
+      '{"id":1,"citation":"42 U.S.C. § 1983"},' +
+      '{"id":2,"citation":"*Doe v. Roe*, 3 F.4th 4 (2d Cir. 2021)"}]',
+  ];
+
+  it("proposes corrections without modifying the text", async () => {
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm(responses) });
+
+    expect(proposals.map((p) => p.id)).toEqual([0, 2]);
+    expect(proposals[0]).toMatchObject({
+      position: text.indexOf("Smith"),
+      original: "Smith v Jones, 1 F.3d 2 (9th Cir. 1993)",
+      replacement: "*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)",
+      source: "llm",
+    });
+  });
+
+  it("applies only the accepted proposals", async () => {
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm(responses) });
+    const result = applySelected(text, proposals, [2]);
+
+    expect(result.text).toContain("Smith v Jones");
+    expect(result.text).toContain("*Doe v. Roe*, 3 F.4th 4");
+    expect(result.appliedCorrections).toHaveLength(1);
+    expect(result.appliedCorrections[0].position).toBe(text.indexOf("Doe"));
+  });
+
+  it("produces the same text as bluebookify when every proposal is accepted", async () => {
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm(responses) });
+    const full = await bluebookify(text, { llm: mockLlm(responses) });
+
+    expect(applySelected(text, proposals, proposals.map((p) => p.id)).text).toBe(full.text);
+  });
+
+  it("refuses to apply a proposal whose span no longer matches", async () => {
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm(responses) });
+    const edited = "Briefly, " + text;
+
+    expect(() => applySelected(edited, proposals, [0])).toThrow("Proposal 0 no longer matches the text");
+  });
+
+  it("throws on an unknown proposal id", async () => {
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm(responses) });
+    expect(() => applySelected(text, proposals, [1])).toThrow("Unknown proposal id 1");
+  });
+});
+
+describe("concurrency", () => {
+  const text = Array.from({ length: 6 }, (_, i) => `under 42 U.S.C. § ${1980 + i},`).join(" ");
+
+  /** Helper: an LLM that echoes each citation unchanged after a per-call delay */
+  function echoLlm(delays: number[], fail?: number) {
+    let active = 0;
+    let maxActive = 0;
+    let call = 0;
+    const fn = vi.fn(async (messages: Message[]): Promise<string> => {
+      const index = call++;
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, delays[index] ?? 0));
+      active--;
+      if (index === fail) throw new Error(`batch ${index} failed`);
+      const items = [...messages[1].content.matchAll(/^\[(\d+)\] “[^”]*” \[([^\]]*)\]/gm)];
+      return JSON.stringify(items.map((m) => ({ id: Number(m[1]), citation: m[2] + " " })));
+    });
+    return { fn, maxActive: () => maxActive };
+  }
+
+  it("runs batches in parallel up to the limit", async () => {
+    const llm = echoLlm([20, 20, 20, 20, 20, 20]);
+    await bluebookify(text, { llm: llm.fn, batchSize: 1, concurrency: 3 });
+
+    expect(llm.fn).toHaveBeenCalledTimes(6);
+    expect(llm.maxActive()).toBe(3);
+  });
+
+  it("merges corrections in document order when batches finish out of order", async () => {
+    const llm = echoLlm([30, 20, 10]);
+    const result = await bluebookify(text, { llm: llm.fn, batchSize: 2, concurrency: 3 });
+
+    expect(result.corrections.map((c) => c.original)).toEqual(
+      Array.from({ length: 6 }, (_, i) => `42 U.S.C. § ${1980 + i}`)
+    );
+  });
+
+  it("is sequential by default", async () => {
+    const llm = echoLlm([5, 5, 5]);
+    await bluebookify(text, { llm: llm.fn, batchSize: 2 });
+    expect(llm.maxActive()).toBe(1);
+  });
+
+  it("starts no new batches after one fails", async () => {
+    const llm = echoLlm([10, 5, 10, 10, 10, 10], 1);
+    await expect(bluebookify(text, { llm: llm.fn, batchSize: 1, concurrency: 2 })).rejects.toThrow(
+      "batch 1 failed"
+    );
+    // Batches 0 and 1 start together; nothing starts after batch 1 fails
+    expect(llm.fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws on invalid concurrency", async () => {
+    await expect(
+      bluebookify("Under 42 U.S.C. § 1983", { llm: mockLlm([]), concurrency: 0 })
+    ).rejects.toThrow("Invalid concurrency");
+  });
+});
+
+describe("repair retries", () => {
+  const text = "First 42 U.S.C. § 1983 and 28 U.S.C. § 1331 and 29 U.S.C. § 151.";
+
+  it("re-asks with the parse error explained", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,',
+      '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"},{"id":2,"citation":"29 U.S.C. § 151"}]',
+    ]);
+
+    const result = await bluebookify(text, { llm });
+
+    expect(llm).toHaveBeenCalledTimes(2);
+    const retry = llm.mock.calls[1][0];
+    expect(retry[retry.length - 2]).toEqual({ role: "assistant", content: '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,' });
+    expect(retry[retry.length - 1].content).toContain("could not be used: Invalid LLM response");
+    expect(result.retries).toEqual({ parse: 1, missing: 0 });
+  });
+
+  it("asks again for only the missing ids and merges the answers", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"42 U.S.C. § 1983"}]',
+      '[{"id":1,"citation":"28 U.S.C. § 1331"},{"id":2,"citation":"29 U.S.C. § 151 "}]',
+    ]);
+
+    const result = await bluebookify(text, { llm });
+
+    const followUp = llm.mock.calls[1][0][1].content;
+    expect(followUp).not.toContain("[0]");
+    expect(followUp).toContain("[1]");
+    expect(followUp).toContain("[2]");
+    expect(result.corrections.map((c) => c.replacement)).toEqual(["29 U.S.C. § 151 "]);
+    expect(result.retries).toEqual({ parse: 0, missing: 1 });
+  });
+
+  it("drops duplicate ids with a warning, keeping the first", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":0,"citation":"WRONG"},' +
+        '{"id":1,"citation":"28 U.S.C. § 1331"},{"id":2,"citation":"29 U.S.C. § 151"}]',
+    ]);
+
+    const result = await bluebookify(text, { llm });
+
+    expect(result.unchanged).toBe(true);
+    expect(result.responseWarnings.map((w) => w.code)).toEqual(["duplicate-id"]);
+  });
+
+  it("throws once the retry budget is spent", async () => {
+    const llm = mockLlm(["not json", "still not json", "nope"]);
+    await expect(bluebookify(text, { llm, maxRetries: 2 })).rejects.toThrow("no JSON array found");
+    expect(llm).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws on invalid maxRetries", async () => {
+    await expect(bluebookify(text, { llm: mockLlm([]), maxRetries: -1 })).rejects.toThrow("Invalid maxRetries");
+  });
+});
+
+describe("correction cache", () => {
+  const text = "First 42 U.S.C. § 1983 and then 28 U.S.C. § 1331.";
+
+  it("sends only uncached citations to the LLM", async () => {
+    const cache = createMemoryCache();
+    const first = await bluebookify(text, {
+      llm: mockLlm(['[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"}]']),
+      cache,
+      contextSize: 10,
+    });
+    expect(first.cache).toEqual({ hits: 0, misses: 2 });
+
+    const llm = mockLlm(['[{"id":1,"citation":"29 U.S.C. § 151"}]']);
+    const edited = "First 42 U.S.C. § 1983 and then 29 U.S.C. §151.";
+    const second = await bluebookify(edited, { llm, cache, contextSize: 10 });
+
+    expect(llm).toHaveBeenCalledTimes(1);
+    expect(llm.mock.calls[0][0][1].content).not.toContain("[0]");
+    expect(second.cache).toEqual({ hits: 1, misses: 1 });
+    expect(second.text).toBe("First 42 U.S.C. § 1983 and then 29 U.S.C. § 151.");
+  });
+
+  it("does not call the LLM when every citation is cached", async () => {
+    const cache = createMemoryCache();
+    const response = '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"}]';
+    await bluebookify(text, { llm: mockLlm([response]), cache });
+
+    const llm = mockLlm([]);
+    const result = await bluebookify(text, { llm, cache });
+    expect(llm).not.toHaveBeenCalled();
+    expect(result.cache).toEqual({ hits: 2, misses: 0 });
+  });
+
+  it("misses when the custom rules change", async () => {
+    const cache = createMemoryCache();
+    const response = '[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"}]';
+    await bluebookify(text, { llm: mockLlm([response]), cache });
+
+    const llm = mockLlm([response]);
+    const result = await bluebookify(text, { llm, cache, rules: "Prefer Bluepages style." });
+    expect(llm).toHaveBeenCalledTimes(1);
+    expect(result.cache).toEqual({ hits: 0, misses: 2 });
+  });
+
+  it("caches the LLM's markup and applies the current italicStyle", async () => {
+    const cache = createMemoryCache();
+    const caseText = "as held in Smith v Jones, 1 F.3d 2 (9th Cir. 1993), the";
+    await bluebookify(caseText, {
+      llm: mockLlm(['[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]']),
+      cache,
+    });
+
+    const result = await bluebookify(caseText, { llm: mockLlm([]), cache, italicStyle: "html" });
+    expect(result.text).toContain("<i>Smith v. Jones</i>, 1 F.3d 2");
+  });
+
+  it("reports no hits or misses without a cache", async () => {
+    const result = await bluebookify(text, {
+      llm: mockLlm(['[{"id":0,"citation":"42 U.S.C. § 1983"},{"id":1,"citation":"28 U.S.C. § 1331"}]']),
+    });
+    expect(result.cache).toEqual({ hits: 0, misses: 0 });
+  });
+});
+
+describe("progress and cancellation", () => {
+  const text = "First 42 U.S.C. § 1983 and 28 U.S.C. § 1331 and 29 U.S.C. § 151.";
+  const responses = [
+    '[{"id":0,"citation":"42 U.S.C. § 1983"}]',
+    '[{"id":1,"citation":"28 U.S.C. § 1331"}]',
+    '[{"id":2,"citation":"29 U.S.C. § 151"}]',
+  ];
+
+  it("reports progress after each batch", async () => {
+    const progress: BluebookifyProgress[] = [];
+    await bluebookify(text, { llm: mockLlm(responses), batchSize: 1, onProgress: (p) => progress.push(p) });
+
+    expect(progress).toEqual([
+      { batchesDone: 1, totalBatches: 3, citationsDone: 1, totalCitations: 3 },
+      { batchesDone: 2, totalBatches: 3, citationsDone: 2, totalCitations: 3 },
+      { batchesDone: 3, totalBatches: 3, citationsDone: 3, totalCitations: 3 },
+    ]);
+  });
+
+  it("passes the signal to a custom llm function", async () => {
+    const controller = new AbortController();
+    const llm = vi.fn(async (_messages: Message[], _options?: LlmCallOptions) => responses[0]);
+    await bluebookify("Under 42 U.S.C. § 1983, plaintiffs may sue.", { llm, signal: controller.signal });
+    expect(llm.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+
+  it("stops issuing batches and rejects with BluebookifyAbortError", async () => {
+    const controller = new AbortController();
+    const llm = mockLlm(responses);
+    const run = bluebookify(text, {
+      llm,
+      batchSize: 1,
+      signal: controller.signal,
+      onProgress: ({ batchesDone }) => {
+        if (batchesDone === 1) controller.abort("user cancelled");
+      },
+    });
+
+    const error = await run.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(BluebookifyAbortError);
+    expect((error as Error).name).toBe("AbortError");
+    expect((error as Error).cause).toBe("user cancelled");
+    expect(llm).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an in-flight call as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const llm = vi.fn(() => new Promise<string>(() => {}));
+    const run = bluebookify(text, { llm, signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+    await expect(run).rejects.toBeInstanceOf(BluebookifyAbortError);
+  });
+
+  it("rejects before calling the LLM when already aborted", async () => {
+    const llm = mockLlm(responses);
+    await expect(bluebookify(text, { llm, signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+      BluebookifyAbortError
+    );
+    expect(llm).not.toHaveBeenCalled();
+  });
+});
+
+describe("estimate", () => {
+  const text = "First 42 U.S.C. § 1983 and 28 U.S.C. §1331 and 29 U.S.C. § 151.";
+
+  it("plans batches without an LLM", () => {
+    const plan = estimate(text, { batchSize: 2 });
+
+    expect(plan.citations).toBe(3);
+    expect(plan.batches.map((b) => b.citationIds)).toEqual([[0, 1], [2]]);
+    expect(plan.promptTokens).toBe(plan.batches[0].promptTokens + plan.batches[1].promptTokens);
+  });
+
+  it("returns exactly the messages bluebookify would send", async () => {
+    const plan = estimate(text, { batchSize: 2, rules: "House rule." });
+    const llm = mockLlm([
+      '[{"id":0,"citation":"a"},{"id":1,"citation":"b"}]',
+      '[{"id":2,"citation":"c"}]',
+    ]);
+    await bluebookify(text, { llm, batchSize: 2, rules: "House rule." });
+
+    expect(plan.batches.map((b) => b.messages)).toEqual(llm.mock.calls.map((call) => call[0]));
+    // Normalized before sending
+    expect(plan.batches[0].messages[1].content).toContain("28 U.S.C. § 1331");
+  });
+
+  it("estimates about four characters per token", () => {
+    const [batch] = estimate(text).batches;
+    const chars = batch.messages.reduce((sum, m) => sum + m.content.length, 0);
+    expect(batch.promptTokens).toBe(Math.ceil(chars / 4));
+  });
+
+  it("returns an empty plan for text without citations", () => {
+    expect(estimate("No citations here.")).toEqual({ citations: 0, batches: [], promptTokens: 0 });
+  });
+
+  it("throws on invalid batchSize", () => {
+    expect(() => estimate(text, { batchSize: 0 })).toThrow("Invalid batchSize");
+  });
+});
+
+describe("explain", () => {
+  const text = "as held in Smith v Jones, 1 F.3d 2 (9th Cir. 1993), the";
+
+  it("asks for rule references only when enabled", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]', '[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm });
+    await bluebookify(text, { llm, explain: true });
+
+    expect(llm.mock.calls[0][0][0].content).not.toContain('"rule"');
+    expect(llm.mock.calls[1][0][0].content).toContain('add "rule"');
+  });
+
+  it("carries the rule and explanation into corrections and proposals", async () => {
+    const response =
+      '[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)","rule":"Rule 10.2.1","explanation":"Italicize case names."}]';
+    const result = await bluebookify(text, { llm: mockLlm([response]), explain: true });
+    const { proposals } = await proposeCorrections(text, { llm: mockLlm([response]), explain: true });
+
+    expect(result.corrections[0]).toMatchObject({ rule: "Rule 10.2.1", explanation: "Italicize case names." });
+    expect(proposals[0]).toMatchObject({ rule: "Rule 10.2.1", explanation: "Italicize case names." });
+  });
+
+  it("keeps the rule and explanation for cached corrections", async () => {
+    const cache = createMemoryCache();
+    const response = '[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)","rule":"Rule 10.2.1"}]';
+    await bluebookify(text, { llm: mockLlm([response]), explain: true, cache });
+
+    const result = await bluebookify(text, { llm: mockLlm([]), explain: true, cache });
+    expect(result.cache.hits).toBe(1);
+    expect(result.corrections[0].rule).toBe("Rule 10.2.1");
+  });
+});
+
+describe("style", () => {
+  const text = "as held in Smith v Jones, 1 F.3d 2 (9th Cir. 1993), the";
+
+  it("uses the Bluebook by default", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm });
+    expect(llm.mock.calls[0][0][0].content).toContain("The Bluebook: A Uniform System of Citation");
+  });
+
+  it("puts the style's manual and typeface rules in the system prompt", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]', '[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm, style: "law-review" });
+    await bluebookify(text, { llm, style: "alwd" });
+
+    expect(llm.mock.calls[0][0][0].content).toContain("Bluebook law review format");
+    expect(llm.mock.calls[0][0][0].content).toContain("large and small caps");
+    expect(llm.mock.calls[1][0][0].content).toContain("ALWD Guide to Legal Citation");
+  });
+
+  it("tells the LLM how to format secondary sources", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm });
+    const system = llm.mock.calls[0][0][0].content;
+
+    expect(system).toContain("Periodicals:");
+    expect(system).toContain("Restatement (Second) of Torts § 402A");
+    expect(system).toContain("Books and treatises:");
+    expect(system).toContain("Internet sources:");
+  });
+
+  it("includes record citations in batches with the Bluepages record rules", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"(Compl. ¶ 5)"}]']);
+    await bluebookify("as alleged (Compl. ¶5), the", { llm, style: "bluepages" });
+    const [system, user] = llm.mock.calls[0][0];
+
+    expect(user.content).toContain("[0] \u201Cas alleged \u201D [(Compl. ¶ 5)]");
+    expect(system.content).toContain("Record citations:");
+    expect(system.content).toContain("(B17.2)");
+  });
+
+  it("accepts a custom profile", async () => {
+    const style = { ...STYLES.bluebook, name: "firm", rules: [...STYLES.bluebook.rules, "Always give parallel citations"] };
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]']);
+    await bluebookify(text, { llm, style });
+    expect(llm.mock.calls[0][0][0].content).toContain("- Always give parallel citations");
+  });
+
+  it("applies the style's reporter spellings before the LLM sees them", async () => {
+    const californian = "as held in People v. Smith, 22 Cal. 4th 1 (2000), the";
+    const { batches } = estimate(californian, { style: "california" });
+    expect(batches[0].messages[1].content).toContain("22 Cal.4th 1");
+    expect(bluebookifyOffline(californian, { style: "california" }).text).toContain("22 Cal.4th 1");
+  });
+
+  it("extracts and normalizes citations already in California Style Manual form", () => {
+    const text = "as held in *People v. Smith* (2000) 22 Cal. 4th 1, 5, and Smith v. Jones (9th Cir. 2001) 250 F. 3d 1, the";
+    const result = bluebookifyOffline(text, { style: "california" });
+    expect(result.text).toBe(
+      "as held in *People v. Smith* (2000) 22 Cal.4th 1, 5, and Smith v. Jones (9th Cir. 2001) 250 F.3d 1, the"
+    );
+    expect(result.corrections).toHaveLength(2);
+  });
+
+  it("keeps separate cache entries per style", async () => {
+    const cache = createMemoryCache();
+    await bluebookify(text, { llm: mockLlm(['[{"id":0,"citation":"x"}]']), cache });
+    const result = await bluebookify(text, { llm: mockLlm(['[{"id":0,"citation":"x"}]']), cache, style: "bluepages" });
+    expect(result.cache).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it("throws on an unknown style", async () => {
+    await expect(bluebookify(text, { llm: mockLlm([]), style: "chicago" as never })).rejects.toThrow(
+      "Invalid style: chicago. Must be one of bluebook, bluepages, law-review, alwd, california."
+    );
+    expect(() => bluebookifyOffline(text, { style: "chicago" as never })).toThrow("Invalid style");
+  });
+});
+
+describe("substantive change guard", () => {
+  const text = "as held in Marbury vs. Madison, 5 US 137 (1803), the Court";
+
+  it("rejects a correction that changes a page, keeping the normalizer's fixes", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 173 (1803)"}]']);
+    const result = await bluebookify(text, { llm });
+
+    expect(result.text).toBe("as held in Marbury v. Madison, 5 U.S. 137 (1803), the Court");
+    expect(result.corrections[0].source).toBe("rule");
+    expect(result.rejected).toEqual([
+      {
+        id: 0,
+        position: text.indexOf("Marbury"),
+        original: "Marbury vs. Madison, 5 US 137 (1803)",
+        replacement: "*Marbury v. Madison*, 5 U.S. 173 (1803)",
+        reasons: ['Changes first page "137" to "173"'],
+      },
+    ]);
+  });
+
+  it("applies substantive changes when allowed", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 173 (1803)"}]']);
+    const result = await bluebookify(text, { llm, allowSubstantiveChanges: true });
+
+    expect(result.text).toContain("5 U.S. 173");
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("reports rejected corrections from proposeCorrections", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 137 (1804)"}]']);
+    const { proposals, rejected } = await proposeCorrections(text, { llm });
+
+    expect(proposals.map((p) => p.source)).toEqual(["rule"]);
+    expect(rejected[0].reasons).toEqual(['Changes year "1803" to "1804"']);
+  });
+});
+
+describe("bluebookifyDocument", () => {
+  const document = {
+    body: "Circuits are split.",
+    footnotes: ["See Smith v Jones, 100 F.3d 200 (1st Cir. 1996).", "Text only.", "Id. at 205."],
+  };
+
+  it("corrects each footnote in place and tags corrections with their footnote", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"See *Smith v. Jones*, 100 F.3d 200 (1st Cir. 1996)"},{"id":1,"citation":"*Id.* at 205"}]',
+    ]);
+    const result = await bluebookifyDocument(document, { llm });
+
+    expect(result.document).toEqual({
+      body: "Circuits are split.",
+      footnotes: ["See *Smith v. Jones*, 100 F.3d 200 (1st Cir. 1996).", "Text only.", "*Id.* at 205."],
+    });
+    expect(result.corrections.map((c) => [c.footnote, c.position])).toEqual(
+      expect.arrayContaining([
+        [1, 0],
+        [3, 0],
+      ])
+    );
+    expect(result.unchanged).toBe(false);
+  });
+
+  it("marks footnotes in the prompt and reports footnote warnings", async () => {
+    const llm = mockLlm([
+      '[{"id":0,"citation":"See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996)"},{"id":1,"citation":"Id. at 205"}]',
+    ]);
+    const result = await bluebookifyDocument(document, { llm });
+    const [system, user] = llm.mock.calls[0][0];
+
+    expect(system.content).toContain('Citations marked "footnote N"');
+    expect(user.content).toContain("[1] (footnote 3)");
+    expect(result.warnings.map((w) => [w.code, w.footnote])).toEqual([["id-across-footnotes", 3]]);
+  });
+
+  it("leaves footnote rules out of the prompt for plain text", async () => {
+    const llm = mockLlm(['[{"id":0,"citation":"x"}]']);
+    await bluebookify("See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996).", { llm });
+    expect(llm.mock.calls[0][0][0].content).not.toContain("footnote");
+  });
+
+  it("throws on a malformed document", async () => {
+    await expect(bluebookifyDocument({ body: "x" } as never, { llm: mockLlm([]) })).rejects.toThrow(
+      "bluebookifyDocument requires a document"
+    );
+  });
 });
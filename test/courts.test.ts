@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { COURTS, canonicalCourt, checkCourts } from "../src/courts.js";
+import { extractCitations, extractDocumentCitations } from "../src/extractor.js";
+import { STYLES } from "../src/styles.js";
+
+describe("canonicalCourt", () => {
+  it.each([
+    ["9th Cir.", "9th Cir."],
+    ["9th Circuit", "9th Cir."],
+    ["Ninth Circuit", "9th Cir."],
+    ["3rd Cir", "3d Cir."],
+    ["S.D.N.Y", "S.D.N.Y."],
+    ["SDNY", "S.D.N.Y."],
+    ["N.D. Cal", "N.D. Cal."],
+    ["S.D. W. Va.", "S.D. W. Va."],
+    ["Bankr. D. Del.", "Bankr. D. Del."],
+    ["Cal. Ct. App", "Cal. Ct. App."],
+    ["Mass.", "Mass."],
+  ])("resolves %s", (text, expected) => {
+    expect(canonicalCourt(text)).toBe(expected);
+  });
+
+  it("returns undefined for unknown courts", () => {
+    expect(canonicalCourt("Foo Ct.")).toBeUndefined();
+  });
+
+  it("has no two courts with the same spelling", () => {
+    const keys = COURTS.map((c) => c.abbreviation.replace(/[.\s]/g, "").toLowerCase());
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe("checkCourts", () => {
+  it("accepts known courts and reporters that imply the court", () => {
+    const contexts = extractCitations(
+      "Smith v. Jones, 1 F.3d 2 (9th Cir. 1999); Marbury v. Madison, 5 U.S. 137 (1803); " +
+        "People v. Smith, 22 Cal. 4th 1 (2000); Doe v. Roe, 3 F. Supp. 3d 4 (N.D. Cal. Jan. 5, 2015)."
+    );
+    expect(checkCourts(contexts)).toEqual([]);
+  });
+
+  it("keeps the parenthetical after pincite ranges, lists and footnotes", () => {
+    const contexts = extractCitations(
+      "United States v. Smith, 1 F.3d 2, 5–6 (9th Cir. 1993). United States v. Jones, 1 F.3d 8, 10 n.3 (9th Cir. 1993). " +
+        "Doe v. Roe, 3 F.4th 4, 6, 9 (2d Cir. 2021)."
+    );
+    expect(contexts.map((c) => c.parsed)).toMatchObject([
+      { kind: "case", pincites: ["5–6"], court: "9th Cir." },
+      { kind: "case", pincites: ["10 n.3"], court: "9th Cir." },
+      { kind: "case", pincites: ["6", "9"], court: "2d Cir." },
+    ]);
+    expect(checkCourts(contexts)).toEqual([]);
+  });
+
+  it("accepts a court without its state for a single state's reporter", () => {
+    const contexts = extractCitations(
+      "People v. Doe, 1 Cal. Rptr. 3d 2 (Ct. App. 2015); Smith v. Jones, 3 N.Y.S.3d 4 (App. Div. 2010)."
+    );
+    expect(checkCourts(contexts)).toEqual([]);
+    expect(checkCourts(extractCitations("Smith v. Jones, 3 F.3d 4 (App. Div. 2010)."))[0].code).toBe("unknown-court");
+  });
+
+  it("flags a missing court for reporters covering several courts", () => {
+    const warnings = checkCourts(extractCitations("In Doe v. Roe, 3 A.3d 4 (2010), and Smith v. Jones, 1 F.3d 2, 5."));
+    expect(warnings.map((w) => w.code)).toEqual(["missing-court", "missing-court"]);
+    expect(warnings[0].message).toContain("A.3d");
+  });
+
+  it("leaves out the courts a style omits", () => {
+    const contexts = extractCitations("People v. Smith (2000) 80 Cal.Rptr.2d 1; Doe v. Roe, 3 A.3d 4 (2010).");
+    expect(checkCourts(contexts).map((w) => w.code)).toEqual(["missing-court", "missing-court"]);
+    expect(checkCourts(contexts, STYLES.california)).toMatchObject([{ code: "missing-court", citationId: 0 }]);
+    expect(checkCourts(contexts, STYLES.california)[0].message).toContain("A.3d");
+  });
+
+  it("flags an unknown court", () => {
+    const warnings = checkCourts(extractCitations("Smith v. Jones, 1 F.3d 2 (12th Cir. 1999)."));
+    expect(warnings).toEqual([
+      {
+        code: "unknown-court",
+        citationId: 0,
+        position: 0,
+        message: 'Court "12th Cir." in Smith v. Jones is not a recognized court abbreviation',
+      },
+    ]);
+  });
+
+  it("reports the footnote of a footnoted citation", () => {
+    const contexts = extractDocumentCitations({ body: "Text.", footnotes: ["Doe v. Roe, 3 A.3d 4 (2010)."] });
+    expect(checkCourts(contexts)[0]).toMatchObject({ code: "missing-court", footnote: 1 });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../src/diff.js";
+
+describe("unifiedDiff", () => {
+  it("returns empty string for identical texts", () => {
+    expect(unifiedDiff("same\ntext", "same\ntext")).toBe("");
+  });
+
+  it("diffs a single changed line", () => {
+    expect(unifiedDiff("one\ntwo\nthree", "one\nTWO\nthree", "a/f", "b/f")).toBe(
+      "--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n"
+    );
+  });
+
+  it("limits context and splits distant changes into hunks", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const updated = [...old];
+    updated[1] = "changed 2";
+    updated[17] = "changed 18";
+    const diff = unifiedDiff(old.join("\n"), updated.join("\n"));
+    const headers = diff.split("\n").filter((l) => l.startsWith("@@"));
+    expect(headers).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+  });
+
+  it("handles inserted and deleted lines", () => {
+    expect(unifiedDiff("a\nb\nc", "a\nc\nd")).toBe("--- a\n+++ b\n@@ -1,3 +1,3 @@\n a\n-b\n c\n+d\n");
+  });
+});
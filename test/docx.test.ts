@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { bluebookifyDocx } from "../src/docx.js";
+import type { Message } from "../src/types.js";
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+/** Helper: build a minimal .docx package from body (and optional footnotes) paragraph XML */
+function makeDocx(body: string, footnotes?: string): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8('<?xml version="1.0"?><Types/>'),
+    "word/document.xml": strToU8(`<?xml version="1.0"?><w:document ${NS}><w:body>${body}</w:body></w:document>`),
+  };
+  if (footnotes !== undefined) {
+    files["word/footnotes.xml"] = strToU8(`<?xml version="1.0"?><w:footnotes ${NS}>${footnotes}</w:footnotes>`);
+  }
+  return zipSync(files);
+}
+
+function readPart(buffer: Uint8Array, part: string): string {
+  return strFromU8(unzipSync(buffer)[part]);
+}
+
+function mockLlm(response: string) {
+  return vi.fn(async (_messages: Message[]): Promise<string> => response);
+}
+
+function run(text: string, rPr = ""): string {
+  return `<w:r>${rPr}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+}
+
+describe("bluebookifyDocx", () => {
+  it("finds a citation split across runs and writes italics as real runs", async () => {
+    const body = `<w:p>${run("The court held in Marbury v")}${run(". Madison, 5 U.S. 137 (1803) that.")}</w:p>`;
+    const llm = mockLlm('[{"id":0,"citation":"*Marbury v. Madison*, 5 U.S. 137 (1803)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+
+    expect(llm.mock.calls[0][0][1].content).toContain("[Marbury v. Madison, 5 U.S. 137 (1803)]");
+    expect(xml).toContain('<w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t xml:space="preserve">Marbury v. Madison</w:t></w:r>');
+    expect(xml).toContain('<w:t xml:space="preserve">, 5 U.S. 137 (1803)</w:t>');
+    expect(xml).toContain('<w:t xml:space="preserve">The court held in </w:t>');
+    expect(xml).toContain('<w:t xml:space="preserve"> that.</w:t>');
+    expect(xml).not.toContain("*");
+    expect(result.corrections).toHaveLength(1);
+    expect(result.unchanged).toBe(false);
+  });
+
+  it("preserves other run formatting when toggling italics", async () => {
+    const bold = "<w:rPr><w:b/><w:sz w:val=\"24\"/></w:rPr>";
+    const body = `<w:p>${run("held in Smith vs. Jones, 1 F.3d 2 (9th Cir. 1993) here", bold)}</w:p>`;
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+    expect(xml).toContain('<w:rPr><w:b/><w:i/><w:iCs/><w:sz w:val="24"/></w:rPr><w:t xml:space="preserve">Smith v. Jones</w:t>');
+    expect(xml).toContain(`${bold}<w:t xml:space="preserve">, 1 F.3d 2 (9th Cir. 1993)</w:t>`);
+  });
+
+  it("treats existing italic runs as already italicized", async () => {
+    const italic = "<w:rPr><w:i/></w:rPr>";
+    const body = `<w:p>${run("held in ")}${run("Smith v. Jones", italic)}${run(", 1 F.3d 2 (9th Cir. 1993) here")}</w:p>`;
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const input = makeDocx(body);
+    const result = await bluebookifyDocx(input, { llm });
+    expect(llm.mock.calls[0][0][1].content).toContain("[*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)]");
+    expect(result.unchanged).toBe(true);
+    expect(result.buffer).toBe(input);
+  });
+
+  it("corrects citations in footnotes", async () => {
+    const body = `<w:p>${run("Body text.")}<w:r><w:footnoteReference w:id="1"/></w:r></w:p>`;
+    const footnotes = `<w:footnote w:id="1"><w:p>${run("See 42 U.S.C. §1983.")}</w:p></w:footnote>`;
+    const llm = mockLlm('[{"id":0,"citation":"*See* 42 U.S.C. § 1983"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body, footnotes), { llm });
+    const xml = readPart(result.buffer, "word/footnotes.xml");
+    expect(xml).toContain('<w:rPr><w:i/><w:iCs/></w:rPr><w:t xml:space="preserve">See</w:t>');
+    expect(xml).toContain('<w:t xml:space="preserve"> 42 U.S.C. § 1983</w:t>');
+    expect(readPart(result.buffer, "word/document.xml")).toContain('<w:footnoteReference w:id="1"/>');
+  });
+
+  it("handles XML entities in run text", async () => {
+    const body = `<w:p>${run("held in Smith v. Jones, 1 F.3d 2 (9th Cir. 1993) &lt;R&amp;D&gt; here")}</w:p>`;
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    expect(llm.mock.calls[0][0][1].content).toContain("<R&D>");
+    expect(readPart(result.buffer, "word/document.xml")).toContain(" &lt;R&amp;D&gt; here");
+  });
+
+  it("reads non-breaking and soft hyphens as characters and writes them back", async () => {
+    const body =
+      '<w:p><w:r><w:t xml:space="preserve">The non</w:t><w:noBreakHyphen/><w:t xml:space="preserve">party juris</w:t>' +
+      '<w:softHyphen/><w:t xml:space="preserve">diction held in Smith vs. Jones, 1 F.3d 2 (9th Cir. 1993) here</w:t></w:r></w:p>';
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+    expect(llm.mock.calls[0][0][1].content).toContain("non\u2011party juris\u00ADdiction");
+    expect(xml).toContain(
+      '<w:t xml:space="preserve">The non</w:t><w:noBreakHyphen/><w:t xml:space="preserve">party juris</w:t><w:softHyphen/>'
+    );
+    expect(xml).toContain('<w:t xml:space="preserve">Smith v. Jones</w:t>');
+  });
+
+  it("keeps a page break in an edited run", async () => {
+    const body =
+      '<w:p><w:r><w:t xml:space="preserve">End.</w:t><w:br w:type="page"/>' +
+      '<w:t xml:space="preserve">As held in Smith vs. Jones, 1 F.3d 2 (9th Cir. 1993) here</w:t></w:r></w:p>';
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+    expect(xml).toContain('<w:t xml:space="preserve">End.</w:t><w:br w:type="page"/><w:t xml:space="preserve">As held in </w:t>');
+    expect(xml).toContain('<w:t xml:space="preserve">Smith v. Jones</w:t>');
+  });
+
+  it("keeps a symbol character in an edited run", async () => {
+    const body =
+      '<w:p><w:r><w:sym w:font="Wingdings" w:char="F0E0"/>' +
+      '<w:t xml:space="preserve"> held in Smith vs. Jones, 1 F.3d 2 (9th Cir. 1993) here</w:t></w:r></w:p>';
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+    expect(llm.mock.calls[0][0][1].content).toContain("\uF0E0 held in");
+    expect(xml).toContain('<w:r><w:sym w:font="Wingdings" w:char="F0E0"/><w:t xml:space="preserve"> held in </w:t></w:r>');
+    expect(xml).toContain('<w:t xml:space="preserve">Smith v. Jones</w:t>');
+  });
+
+  it("keeps non-text elements of an edited run", async () => {
+    const body =
+      '<w:p><w:r><w:t xml:space="preserve">held in Smith vs. Jones, 1 F.3d 2 (9th Cir. 1993)</w:t>' +
+      '<w:footnoteReference w:id="2"/><w:t xml:space="preserve"> here</w:t></w:r></w:p>';
+    const llm = mockLlm('[{"id":0,"citation":"*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"}]');
+
+    const result = await bluebookifyDocx(makeDocx(body), { llm });
+    const xml = readPart(result.buffer, "word/document.xml");
+    expect(xml).toContain(
+      '<w:t xml:space="preserve">, 1 F.3d 2 (9th Cir. 1993)</w:t><w:footnoteReference w:id="2"/><w:t xml:space="preserve"> here</w:t>'
+    );
+  });
+
+  it("throws on a package without a document part", async () => {
+    const bad = zipSync({ "foo.txt": strToU8("x") });
+    await expect(bluebookifyDocx(bad, { llm: vi.fn() })).rejects.toThrow("missing word/document.xml");
+  });
+
+  it("throws when options is undefined", async () => {
+    await expect(bluebookifyDocx(makeDocx(""))).rejects.toThrow("requires an options object");
+  });
+});
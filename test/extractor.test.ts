@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { extractCitations } from "../src/extractor.js";
+import { extractCitations, extractDocumentCitations } from "../src/extractor.js";
+import { RECORD_DOCUMENTS } from "../src/records.js";
 
 describe("extractCitations", () => {
   it("finds a full case citation with reporter and year", () => {
@@ -138,6 +139,151 @@ describe("extractCitations", () => {
     expect(result[0].original).toContain("205");
   });
 
+  it("finds case citations with mechanical errors the normalizer fixes", () => {
+    const text = "as held in Marbury vs. Madison, 5 US 137 (1803), and Smith v Jones, 1 F. 3d 2 (1st Cir. 1993), the Court";
+    const result = extractCitations(text);
+    expect(result).toHaveLength(2);
+    expect(result[0].original).toBe("Marbury vs. Madison, 5 US 137 (1803)");
+    expect(result[1].original).toBe("Smith v Jones, 1 F. 3d 2 (1st Cir. 1993)");
+  });
+
+  it("finds statutory citation without a space after the section symbol", () => {
+    const text = "Under 42 U.S.C. §1983, a plaintiff may bring suit.";
+    const result = extractCitations(text);
+    expect(result).toHaveLength(1);
+    expect(result[0].original).toBe("42 U.S.C. §1983");
+  });
+
+  it("attaches the parsed citation to each context", () => {
+    const text = "See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996). Under 42 U.S.C. § 1983, Id. at 5.";
+    const result = extractCitations(text);
+    expect(result.map((c) => c.parsed?.kind)).toEqual(["case", "statute", "id"]);
+    expect(result[0].parsed).toMatchObject({ signal: "See", volume: 100, court: "1st Cir.", year: 1996 });
+  });
+
+  it("finds case citations whose names are already italicized", () => {
+    const text =
+      "as held in *Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993), and <i>Doe v. Roe</i>, 3 F.4th 4 (2d Cir. 2021), and \\textit{Roe}, 3 F.4th at 5 too";
+    const result = extractCitations(text);
+    expect(result.map((c) => c.original)).toEqual([
+      "*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)",
+      "<i>Doe v. Roe</i>, 3 F.4th 4 (2d Cir. 2021)",
+      "\\textit{Roe}, 3 F.4th at 5",
+    ]);
+    expect(result[1].parsed).toMatchObject({ kind: "case", caseName: "Doe v. Roe" });
+  });
+
+  describe("state, regional and specialty reporters", () => {
+    it.each([
+      ["regional", "Doe v. Roe, 100 A.3d 200 (Pa. 2014)"],
+      ["regional", "Doe v. Roe, 100 N.E.2d 200 (Ohio 1951)"],
+      ["regional", "Doe v. Roe, 100 N.W.2d 200 (Minn. 1960)"],
+      ["regional", "Doe v. Roe, 100 P.3d 200 (Colo. 2004)"],
+      ["regional", "Doe v. Roe, 100 So. 3d 200 (Fla. 2012)"],
+      ["regional", "Doe v. Roe, 100 S.W.3d 200 (Tex. 2003)"],
+      ["regional", "Doe v. Roe, 100 S.E.2d 200 (Ga. 1957)"],
+      ["state", "Doe v. Roe, 100 Cal. Rptr. 3d 200 (Ct. App. 2009)"],
+      ["state", "Doe v. Roe, 100 N.Y.S.3d 200 (App. Div. 2019)"],
+      ["state", "Doe v. Roe, 100 Ill. App. 3d 200 (1981)"],
+      ["state", "Doe v. Roe, 50 Cal. 4th 200 (2010)"],
+      ["specialty", "Doe v. Roe, 100 B.R. 200 (Bankr. S.D.N.Y. 1989)"],
+      ["specialty", "Doe v. Roe, 100 T.C. 200 (1993)"],
+      ["specialty", "Doe v. Roe, 100 Fed. Cl. 200 (2011)"],
+    ])("finds a %s reporter citation: %s", (_family, citation) => {
+      const result = extractCitations(`as held in ${citation}, the court`);
+      expect(result).toHaveLength(1);
+      expect(result[0].original).toBe(citation);
+    });
+
+    it("tolerates reporter spacing variants", () => {
+      const result = extractCitations("as held in Doe v. Roe, 100 So.3d 200 (Fla. 2012), the court");
+      expect(result).toHaveLength(1);
+      expect(result[0].original).toContain("So.3d");
+    });
+
+    it.each([
+      "Smith, 100 A.3d at 205",
+      "Smith, 100 Cal. Rptr. 3d at 205",
+      "Smith, 100 N.Y.S.3d at 205",
+      "Smith, 100 B.R. at 205",
+    ])("finds state and specialty short form: %s", (citation) => {
+      const result = extractCitations(`The court agreed. ${citation}.`);
+      expect(result.map((c) => c.original)).toContain(citation);
+    });
+  });
+
+  describe("supra, infra and hereinafter", () => {
+    it("finds author supra note with pincite", () => {
+      const text = "The theory is contested. Smith, supra note 12, at 45. Others agree.";
+      const result = extractCitations(text);
+      expect(result).toHaveLength(1);
+      expect(result[0].original).toBe("Smith, supra note 12, at 45");
+      expect(result[0].parsed).toMatchObject({ kind: "supra", note: 12 });
+    });
+
+    it("finds supra and infra references to parts and notes", () => {
+      const text = "as discussed supra Part II and explained infra note 30, the rule";
+      const result = extractCitations(text);
+      expect(result.map((c) => c.original)).toEqual(["supra Part II", "infra note 30"]);
+      expect(result[1].parsed?.kind).toBe("infra");
+    });
+
+    it("finds hereinafter in parentheses and brackets", () => {
+      const text =
+        "the restatement (hereinafter Restatement) and the treatise [hereinafter Treatise] both say";
+      const result = extractCitations(text);
+      expect(result.map((c) => c.original)).toEqual(["(hereinafter Restatement)", "[hereinafter Treatise]"]);
+    });
+
+    it("does not treat the word supra alone as a citation", () => {
+      expect(extractCitations("the supra-national body met")).toHaveLength(0);
+    });
+  });
+
+  describe("string citations", () => {
+    it("groups semicolon-separated citations into one context", () => {
+      const text =
+        "The rule is settled. See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); Doe v. Roe, 3 F.4th 4 (2d Cir. 2021). Next";
+      const result = extractCitations(text);
+      expect(result).toHaveLength(1);
+      expect(result[0].original).toBe(
+        "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); Doe v. Roe, 3 F.4th 4 (2d Cir. 2021)"
+      );
+      expect(result[0].members).toHaveLength(2);
+      expect(result[0].parsed?.kind).toBe("string");
+    });
+
+    it("keeps members individually addressable with positions", () => {
+      const text = "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); see also 42 U.S.C. § 1983.";
+      const [ctx] = extractCitations(text);
+      const members = ctx.members!;
+      expect(members.map((m) => m.original)).toEqual([
+        "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993)",
+        "see also 42 U.S.C. § 1983",
+      ]);
+      for (const m of members) {
+        expect(text.slice(m.start, m.end)).toBe(m.original);
+      }
+      expect(members[1].parsed).toMatchObject({ kind: "statute", signal: "see also" });
+    });
+
+    it("groups across explanatory parentheticals", () => {
+      const text =
+        "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993) (holding that (a) applies); Doe v. Roe, 3 F.4th 4 (2d Cir. 2021).";
+      const result = extractCitations(text);
+      expect(result).toHaveLength(1);
+      expect(result[0].members).toHaveLength(2);
+      expect(result[0].original).toContain("(holding that (a) applies)");
+    });
+
+    it("does not group citations separated by prose", () => {
+      const text = "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); the court also cited Doe v. Roe, 3 F.4th 4 (2d Cir. 2021).";
+      const result = extractCitations(text);
+      expect(result).toHaveLength(2);
+      expect(result[0].members).toBeUndefined();
+    });
+  });
+
   describe("signal-prefix inclusion", () => {
     it("includes 'See' signal immediately before a case citation", () => {
       const text = "The rule is clear. See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996).";
@@ -196,3 +342,182 @@ describe("extractCitations", () => {
     });
   });
 });
+
+describe("constitutions, session laws and codes", () => {
+  const extractOne = (citation: string) => {
+    const result = extractCitations(`As provided in ${citation}, the rule applies.`);
+    expect(result).toHaveLength(1);
+    return result[0].original;
+  };
+
+  it.each([
+    "U.S. Const. art. I, § 8, cl. 3",
+    "U.S. Const. amend. XIV, § 1",
+    "U.S. Const. pmbl.",
+    "Cal. Const. art. I, § 7",
+    "Pub. L. No. 111-148, 124 Stat. 119 (2010)",
+    "Pub. L. No. 111-148, § 1501, 124 Stat. 119, 242 (2010)",
+    "85 Fed. Reg. 12,345 (Mar. 3, 2020)",
+    "85 Fed. Reg. 12,345, 12,350 (Mar. 3, 2020)",
+    "85 Fed. Reg. 1234 (Jan. 2, 2020)",
+    "85 Fed. Reg. 12345, 12350 (Mar. 3, 2020)",
+    "Cal. Civ. Proc. Code § 425.16",
+    "N.Y. Gen. Bus. Law § 349",
+    "Tex. Penal Code Ann. § 22.01",
+    "Tex. Penal Code § 22.01 (West 2019)",
+    "18 Pa. Cons. Stat. § 2501",
+    "Del. Code Ann. tit. 8, § 102",
+    "Mass. Gen. Laws ch. 93A, § 2",
+    "Ga. Code Ann. § 16-5-1",
+  ])("extracts %s", (citation) => {
+    expect(extractOne(citation)).toBe(citation);
+  });
+
+  it.each([
+    "42 U.S.C. § 2000e et seq.",
+    "42 U.S.C. §§ 1981, 1983, and 1985",
+    "42 U.S.C. §§ 1981-1983",
+    "Cal. Civ. Code §§ 1714, 1714.45",
+    "Fla. Stat. § 768.28 et seq.",
+  ])("extracts multi-section form %s", (citation) => {
+    expect(extractOne(citation)).toBe(citation);
+  });
+
+  it("does not read a following pincite-like number into a single section", () => {
+    const result = extractCitations("Under 42 U.S.C. § 1983, 5 claims remain.");
+    expect(result[0].original).toBe("42 U.S.C. § 1983");
+  });
+
+  it("ignores code names without a section", () => {
+    expect(extractCitations("The Cal. Civ. Code governs contracts.")).toEqual([]);
+  });
+});
+
+describe("secondary sources", () => {
+  const extractOne = (citation: string) => {
+    const result = extractCitations(`Moreover, ${citation}. The argument continues.`);
+    expect(result).toHaveLength(1);
+    return result[0].original;
+  };
+
+  it.each([
+    "John Doe, Title of the Article, 100 Harv. L. Rev. 1, 5 (1987)",
+    "John Doe, *A Title: With Subtitle*, 100 Yale L.J. 1 (1987)",
+    "Jane Roe & John Doe, Title, 75 U. Chi. L. Rev. 1101 (2008)",
+    "Restatement (Second) of Torts § 402A (Am. L. Inst. 1965)",
+    "Restatement (Third) of Agency § 2.04 cmt. b (Am. L. Inst. 2006)",
+    "U.C.C. § 2-207 (Am. L. Inst. & Unif. L. Comm'n 2002)",
+    "Unif. Trade Secrets Act § 1 (Unif. L. Comm'n 1985)",
+    "5 Wright & Miller, Federal Practice and Procedure § 1216",
+    "5 Charles Alan Wright & Arthur R. Miller, Federal Practice and Procedure § 1216 (3d ed. 2004)",
+    "John Doe, The Law of Torts 45 (2d ed. 1999)",
+    "Jane Roe, Why Citations Matter, SCOTUSblog (Mar. 3, 2020), https://www.scotusblog.com/2020/03/post",
+    "https://example.com/page [https://perma.cc/ABCD-1234] (last visited Mar. 3, 2020)",
+  ])("extracts %s", (citation) => {
+    expect(extractOne(citation)).toBe(citation);
+  });
+
+  it("does not treat a sentence-opening word as an author", () => {
+    const result = extractCitations("Moreover, John Doe, Title, 100 Harv. L. Rev. 1 (1987).");
+    expect(result[0].original).toBe("John Doe, Title, 100 Harv. L. Rev. 1 (1987)");
+  });
+
+  it("ignores undated URLs and unknown journals", () => {
+    expect(extractCitations("Visit https://example.com for details.")).toEqual([]);
+    expect(extractCitations("John Doe, Title, 100 Unknown L. Gaz. 1 (1987).")).toEqual([]);
+  });
+});
+
+describe("unreported decisions", () => {
+  it.each([
+    "Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)",
+    "*Smith v. Jones*, No. 1:19-cv-01234-ABC, 2020 WL 1234567 (S.D.N.Y. Jan. 5, 2020)",
+    "Doe v. Roe, 2020 U.S. Dist. LEXIS 12345, at *3-4 (D. Mass. Feb. 1, 2020)",
+    "Doe v. Roe, 2019 U.S. App. LEXIS 987 (9th Cir. Mar. 2, 2019)",
+    "Acme Corp. v. Beta Inc., No. 19-1234, slip op. at 5 (2d Cir. Jan. 5, 2020)",
+    "Roe v. Wade, No. 21-cv-123 (D.D.C. filed Mar. 1, 2021)",
+  ])("extracts %s", (citation) => {
+    expect(extractCitations(`Moreover, ${citation}. The argument continues.`).map((c) => c.original)).toEqual([
+      citation,
+    ]);
+  });
+
+  it("extracts database and slip opinion short forms and star-page Id.", () => {
+    const result = extractCitations(
+      "Later, Smith, 2020 WL 1234567, at *4. Id. at *5-6. Then Acme, slip op. at 6."
+    );
+    expect(result.map((c) => c.original)).toEqual(["Smith, 2020 WL 1234567, at *4", "Id. at *5-6", "Acme, slip op. at 6"]);
+  });
+
+  it("ignores a database citation without a case name", () => {
+    expect(extractCitations("see 2020 WL 1234567 generally")).toEqual([]);
+  });
+});
+
+describe("record citations", () => {
+  it.each([
+    ["The light was red. (R. at 12.) Then", "(R. at 12.)"],
+    ["as alleged (Compl. ¶ 5), the", "(Compl. ¶ 5)"],
+    ["as argued (Def.'s Mot. Summ. J. 3), the", "(Def.'s Mot. Summ. J. 3)"],
+    ["he testified (Tr. 45:3–12), and", "(Tr. 45:3–12)"],
+    ["as filed, ECF No. 34, the", "ECF No. 34"],
+    ["as shown at J.A. 101, the", "J.A. 101"],
+    ["as she said (Smith Dep. 12:4-9), the", "(Smith Dep. 12:4-9)"],
+    ["The court agreed. (Pet. App. 3a.) Next", "(Pet. App. 3a.)"],
+    ["as admitted (Answer ¶ 3), the", "(Answer ¶ 3)"],
+    ["as argued (Pls.' Reply 4), the", "(Pls.' Reply 4)"],
+    ["she stated, Smith Decl. ¶ 4, that", "Smith Decl. ¶ 4"],
+  ])("extracts the record citation in %s", (text, citation) => {
+    expect(extractCitations(text).map((c) => c.original)).toEqual([citation]);
+  });
+
+  it("keeps several record citations in one parenthetical together", () => {
+    const result = extractCitations("He ran. (R. at 12; Tr. 45:3–12.) Next");
+    expect(result.map((c) => c.original)).toEqual(["(R. at 12; Tr. 45:3–12.)"]);
+  });
+
+  it("does not mistake rules or reporters for record citations", () => {
+    expect(extractCitations("under Fed. R. Civ. P. 12(b)(6) and Fed. R. App. P. 4")).toEqual([]);
+    expect(extractCitations("Smith v. Jones, 22 Cal. App. 4th 100 (1994)").map((c) => c.original)).toEqual([
+      "Smith v. Jones, 22 Cal. App. 4th 100 (1994)",
+    ]);
+  });
+
+  it("does not take a preceding word for a party or ordinary words for documents", () => {
+    expect(extractCitations("On Monday Compl. ¶ 5 was amended").map((c) => c.original)).toEqual(["Compl. ¶ 5"]);
+    expect(extractCitations("The Answer 12 days later denied it.")).toEqual([]);
+    expect(extractCitations("Reply 2 was filed late.")).toEqual([]);
+  });
+
+  it("does not take a reporter series named in prose for an appendix cite", () => {
+    expect(extractCitations("The rule in Ill. App. 3d is different.")).toEqual([]);
+    expect(extractCitations("Courts reporting in Cal. App. 4th agree.")).toEqual([]);
+  });
+
+  it("uses a custom table of record documents", () => {
+    const documents = [...RECORD_DOCUMENTS, { abbreviation: "Special Master Rep.", name: "Special Master's Report" }];
+    expect(extractCitations("(Special Master Rep. 5)", 100, documents).map((c) => c.original)).toEqual([
+      "(Special Master Rep. 5)",
+    ]);
+    expect(extractCitations("(Compl. ¶ 5)", 100, [])).toEqual([]);
+  });
+});
+
+describe("extractDocumentCitations", () => {
+  it("numbers citations across the body and footnotes and tags each footnote", () => {
+    const result = extractDocumentCitations({
+      body: "Courts disagree. See 42 U.S.C. § 1983.",
+      footnotes: ["Smith v. Jones, 100 F.3d 200 (1st Cir. 1996).", "No citation here.", "Id. at 205."],
+    });
+    expect(result.map((c) => [c.id, c.footnote, c.original])).toEqual([
+      [0, undefined, "See 42 U.S.C. § 1983"],
+      [1, 1, "Smith v. Jones, 100 F.3d 200 (1st Cir. 1996)"],
+      [2, 3, "Id. at 205"],
+    ]);
+  });
+
+  it("keeps offsets and context within each footnote", () => {
+    const [ctx] = extractDocumentCitations({ body: "Body text.", footnotes: ["It agreed. Id. at 5."] });
+    expect(ctx).toMatchObject({ start: 11, end: 19, before: "It agreed. ", after: "." });
+  });
+});
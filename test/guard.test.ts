@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { verifyCorrection } from "../src/guard.js";
+
+describe("verifyCorrection", () => {
+  it("accepts formatting-only changes", () => {
+    expect(verifyCorrection("Marbury v Madison, 5 US 137 (1803)", "*Marbury v. Madison*, 5 U.S. 137 (1803)")).toEqual([]);
+    expect(verifyCorrection("42 U.S.C. §1983(a)(1)", "42 U.S.C. § 1983(a)(1)")).toEqual([]);
+  });
+
+  it("accepts added numbers such as a parallel reporter or missing year", () => {
+    expect(
+      verifyCorrection("Marbury v. Madison, 5 U.S. 137", "*Marbury v. Madison*, 5 U.S. (1 Cranch) 137 (1803)")
+    ).toEqual([]);
+  });
+
+  it("rejects a changed page", () => {
+    expect(verifyCorrection("Marbury v. Madison, 5 U.S. 137 (1803)", "*Marbury v. Madison*, 5 U.S. 173 (1803)")).toEqual([
+      'Changes first page "137" to "173"',
+    ]);
+  });
+
+  it("rejects a changed year or section number", () => {
+    expect(verifyCorrection("Smith v. Jones, 1 F.3d 2 (9th Cir. 1993)", "Smith v. Jones, 1 F.3d 2 (9th Cir. 1994)")).toEqual([
+      'Changes year "1993" to "1994"',
+    ]);
+    expect(verifyCorrection("42 U.S.C. § 1983", "42 U.S.C. § 1985")).toEqual(['Changes section "1983" to "1985"']);
+    expect(verifyCorrection("42 U.S.C. § 1983(a)(1)", "42 U.S.C. § 1983(a)")).toEqual([
+      'Changes subsections "(a)(1)" to "(a)"',
+    ]);
+  });
+
+  it.each([
+    ["1 F.3d 2", "2 F.3d 1", ['Changes volume "1" to "2"', 'Changes first page "2" to "1"']],
+    ["1 F.3d 200, 205", "1 F.3d 205, 200", ['Changes first page "200" to "205"', 'Changes pincite "205" to "200"']],
+    ["1 F.3d 2", "1 F. Supp. 3d 2", ['Changes reporter "F.3d" to "F. Supp. 3d"']],
+  ])("compares case components field by field: %s -> %s", (cite, replacement, reasons) => {
+    expect(verifyCorrection(`Smith v. Jones, ${cite} (1993)`, `*Smith v. Jones*, ${replacement} (1993)`)).toEqual(reasons);
+  });
+
+  it("accepts Rule 3.2(a) shortened page ranges", () => {
+    expect(verifyCorrection("Smith v. Jones, 1 F.3d 100, 100-105 (1993)", "Smith v. Jones, 1 F.3d 100, 100–05 (1993)")).toEqual(
+      []
+    );
+  });
+
+  it.each([
+    ["Marbury v. Madison, 5 U.S. 137 (1803)", "*Marbury v. Madison*, 5 U.S. 37 (1803)", 'Changes first page "137" to "37"'],
+    ["Marbury v. Madison, 5 U.S. 137 (1803)", "*Marbury v. Madison*, 5 U.S. 7 (1803)", 'Changes first page "137" to "7"'],
+    ["42 U.S.C. § 1983", "42 U.S.C. § 83", 'Changes section "1983" to "83"'],
+    ["Smith v. Jones, 1 F.3d 200, 205 (1993)", "*Smith v. Jones*, 1 F.3d 200, 5 (1993)", 'Changes pincite "205" to "5"'],
+    ["Smith v. Jones, 1 F.3d 200 (1996)", "*Smith v. Jones*, 1 F.3d 200 (96)", 'Removes year "1996"'],
+    ["Doe v. Roe, 5 U.S. (1 Cranch) 137 (1803)", "*Doe v. Roe*, 5 U.S. (1 Cranch) 37 (1803)", 'Changes or removes "137"'],
+  ])("rejects a number shortened outside a page range: %s -> %s", (original, replacement, reason) => {
+    expect(verifyCorrection(original, replacement)).toEqual([reason]);
+  });
+
+  it("rejects a shortened range end with a different start", () => {
+    expect(verifyCorrection("Smith v. Jones, 1 F.3d 100, 100-105 (1993)", "Smith v. Jones, 1 F.3d 100, 101–05 (1993)")).toEqual([
+      'Changes pincite "100-105" to "101–05"',
+    ]);
+  });
+
+  it("ignores thousands separators", () => {
+    expect(verifyCorrection("85 Fed. Reg. 12345 (Mar. 3, 2020)", "85 Fed. Reg. 12,345 (Mar. 3, 2020)")).toEqual([]);
+  });
+
+  it("accepts abbreviated party names", () => {
+    expect(
+      verifyCorrection(
+        "Smith Manufacturing Corporation v. Jones Association, 1 F.3d 2 (1993)",
+        "*Smith Mfg. Corp. v. Jones Ass'n*, 1 F.3d 2 (1993)"
+      )
+    ).toEqual([]);
+    expect(verifyCorrection("U.S. v. Smith, 1 F.3d 2 (1993)", "*United States v. Smith*, 1 F.3d 2 (1993)")).toEqual([]);
+    expect(verifyCorrection("Smith, Inc. v. Jones, 1 F.3d 2 (1993)", "*Smith v. Jones*, 1 F.3d 2 (1993)")).toEqual([]);
+  });
+
+  it.each([
+    ["Smith Corporation", "Smith Corp."],
+    ["Smith Corporation", "Smith Corp"],
+    ["Jones Ass'n", "Jones Association"],
+    ["Smith et al.", "Smith"],
+    ["John Smith", "Smith"],
+    ["State of New York", "New York"],
+  ])("accepts %s -> %s", (party, replacement) => {
+    expect(verifyCorrection(`${party} v. Doe, 1 F.3d 2 (1993)`, `*${replacement} v. Doe*, 1 F.3d 2 (1993)`)).toEqual([]);
+  });
+
+  it("rejects a changed party name", () => {
+    expect(verifyCorrection("Smith v. Jones, 1 F.3d 2 (1993)", "*Smyth v. Jones*, 1 F.3d 2 (1993)")).toEqual([
+      'Changes party name "Smith" to "Smyth"',
+    ]);
+  });
+
+  it.each([
+    ["Marbury", "Mary"],
+    ["Madison", "Mad"],
+    ["Johnson", "John"],
+    ["Smith Manufacturing Corp.", "Smith Corp."],
+  ])("rejects %s -> %s as an abbreviation", (party, replacement) => {
+    expect(verifyCorrection(`${party} v. Doe, 1 F.3d 2 (1993)`, `*${replacement} v. Doe*, 1 F.3d 2 (1993)`)).toEqual([
+      `Changes party name "${party}" to "${replacement}"`,
+    ]);
+  });
+
+  it("matches reordered string citation members by volume and page", () => {
+    expect(
+      verifyCorrection(
+        "Doe v. Roe, 3 F.4th 4 (2d Cir. 2021); Smith v. Jones, 1 F.3d 2 (9th Cir. 1993)",
+        "*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993); *Doe v. Roe*, 3 F.4th 4 (2d Cir. 2021)"
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { analyzeHistory } from "../src/history.js";
+import { extractCitations, extractDocumentCitations } from "../src/extractor.js";
+
+function analyze(text: string) {
+  return analyzeHistory(extractCitations(text));
+}
+
+describe("analyzeHistory", () => {
+  it("resolves Id. to the immediately preceding authority", () => {
+    const { antecedents, warnings } = analyze(
+      "See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996). The court agreed. Id. at 205."
+    );
+    expect(antecedents.get(1)).toBe(0);
+    expect(warnings).toEqual([]);
+  });
+
+  it("resolves chained Id. through to the full citation", () => {
+    const { antecedents } = analyze(
+      "See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996). It agreed. Id. at 205. It said more. Id. at 206."
+    );
+    expect(antecedents.get(2)).toBe(0);
+  });
+
+  it("flags Id. with no preceding authority", () => {
+    const { warnings } = analyze("The court agreed. Id. at 5.");
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ code: "orphan-id", citationId: 0 });
+  });
+
+  it("flags Id. after a string citation with multiple authorities", () => {
+    const { antecedents, warnings } = analyze(
+      "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); Doe v. Roe, 3 F.4th 4 (2d Cir. 2021). The rule holds. Id. at 5."
+    );
+    expect(antecedents.has(1)).toBe(false);
+    expect(warnings.map((w) => w.code)).toEqual(["id-after-string-citation"]);
+  });
+
+  it("resolves a short form to an earlier full citation", () => {
+    const { antecedents, warnings } = analyze(
+      "In Smith v. Jones, 456 F.3d 789 (2d Cir. 2006), the court held X. Later, 42 U.S.C. § 1983 applied. Smith, 456 F.3d at 792."
+    );
+    expect(antecedents.get(2)).toBe(0);
+    expect(warnings).toEqual([]);
+  });
+
+  it("resolves a short form to a member of an earlier string citation", () => {
+    const { antecedents } = analyze(
+      "See Smith v. Jones, 1 F.3d 2 (9th Cir. 1993); Doe v. Roe, 3 F.4th 4 (2d Cir. 2021). Then: Doe, 3 F.4th at 6."
+    );
+    expect(antecedents.get(1)).toBe(0);
+  });
+
+  it("flags a short form with no earlier full citation", () => {
+    const { warnings } = analyze("The court held that. Smith, 456 F.3d at 792.");
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe("orphan-short-form");
+    expect(warnings[0].message).toContain("456 F.3d");
+  });
+
+  it("flags a repeated full citation", () => {
+    const { antecedents, warnings } = analyze(
+      "In Smith v. Jones, 456 F.3d 789 (2d Cir. 2006), X. Again in Smith v. Jones, 456 F.3d 789, 792 (2d Cir. 2006), Y."
+    );
+    expect(antecedents.get(1)).toBe(0);
+    expect(warnings.map((w) => w.code)).toEqual(["repeated-full-citation"]);
+    expect(warnings[0].position).toBeGreaterThan(0);
+  });
+
+  it("resolves unreported short forms by database identifier or case name", () => {
+    const { antecedents, warnings } = analyze(
+      "See Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020). " +
+        "Acme Corp. v. Beta Inc., No. 19-1234, slip op. at 5 (2d Cir. Jan. 5, 2020). " +
+        "Later, Smith, 2020 WL 1234567, at *4. Id. at *5. Then Acme, slip op. at 6."
+    );
+    expect(antecedents.get(2)).toBe(0);
+    expect(antecedents.get(3)).toBe(0);
+    expect(antecedents.get(4)).toBe(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it("flags an unreported short form with no earlier full citation", () => {
+    const { warnings } = analyze("The court held that. Smith, 2020 WL 1234567, at *4.");
+    expect(warnings.map((w) => w.code)).toEqual(["orphan-short-form"]);
+    expect(warnings[0].message).toContain("2020 WL 1234567");
+  });
+
+  it("does not treat a hereinafter designation as the Id. antecedent", () => {
+    const { antecedents } = analyze(
+      "See Smith v. Jones, 100 F.3d 200 (1st Cir. 1996) (hereinafter Smith). It agreed. Id. at 205."
+    );
+    expect(antecedents.get(2)).toBe(0);
+  });
+});
+
+describe("analyzeHistory with footnotes", () => {
+  const SMITH = "Smith v. Jones, 100 F.3d 200 (1st Cir. 1996).";
+  const DOE = "Doe v. Roe, 3 F.4th 4 (2d Cir. 2021).";
+
+  function analyzeNotes(footnotes: string[]) {
+    return analyzeHistory(extractDocumentCitations({ body: "", footnotes }), footnotes.length);
+  }
+
+  it("lets Id. refer to a preceding footnote with a single authority", () => {
+    const { antecedents, warnings } = analyzeNotes([SMITH, "Id. at 205."]);
+    expect(antecedents.get(1)).toBe(0);
+    expect(warnings).toEqual([]);
+  });
+
+  it("flags Id. after a footnote with several authorities", () => {
+    const { warnings } = analyzeNotes([`${SMITH} See also ${DOE}`, "Id. at 5."]);
+    expect(warnings).toEqual([
+      {
+        code: "id-across-footnotes",
+        citationId: 2,
+        position: 0,
+        footnote: 2,
+        message: "Id. in footnote 2 follows footnote 1, which cites more than one authority",
+      },
+    ]);
+  });
+
+  it("flags Id. that skips a footnote", () => {
+    const { warnings } = analyzeNotes([SMITH, "Text only.", "Id. at 205."]);
+    expect(warnings.map((w) => [w.code, w.footnote])).toEqual([["id-across-footnotes", 3]]);
+  });
+
+  it("applies the five-footnote rule to case short forms", () => {
+    const notes = [SMITH, "a", "b", "c", "d", "e", "Smith, 100 F.3d at 201."];
+    const { antecedents, warnings } = analyzeNotes(notes);
+    expect(antecedents.get(1)).toBe(0);
+    expect(warnings.map((w) => w.code)).toEqual(["stale-short-form"]);
+    expect(warnings[0].message).toContain("footnote 7");
+
+    expect(analyzeNotes([SMITH, "b", "c", "d", "e", "Smith, 100 F.3d at 201."]).warnings).toEqual([]);
+  });
+
+  it("counts Id. and short forms as citations for the five-footnote rule", () => {
+    const notes = [SMITH, "a", "b", "c", "Smith, 100 F.3d at 201.", "a", "b", "c", "d", "Smith, 100 F.3d at 202."];
+    expect(analyzeNotes(notes).warnings).toEqual([]);
+  });
+
+  it("requires a full citation, not a warning, more than five footnotes later", () => {
+    expect(analyzeNotes([SMITH, "a", "b", "c", "d", "e", SMITH]).warnings).toEqual([]);
+    expect(analyzeNotes([SMITH, "a", SMITH]).warnings.map((w) => w.code)).toEqual(["repeated-full-citation"]);
+  });
+
+  it("checks that supra notes point to an earlier, existing footnote", () => {
+    const { warnings } = analyzeNotes(["Text.", "Smith, supra note 1, at 4.", "Smith, supra note 3.", "Smith, supra note 9."]);
+    expect(warnings.map((w) => [w.code, w.footnote, w.message])).toEqual([
+      ["invalid-supra-note", 3, '"supra note 3" in footnote 3 must refer to an earlier footnote'],
+      ["invalid-supra-note", 4, '"supra note 9" in footnote 4 must refer to an earlier footnote'],
+    ]);
+
+    const body = analyzeHistory(extractCitations("See Smith, supra note 9."), 2);
+    expect(body.warnings[0].message).toBe('"supra note 9" refers to a footnote that does not exist');
+  });
+});
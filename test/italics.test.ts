@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { formatItalics, splitItalics } from "../src/italics.js";
+
+describe("splitItalics", () => {
+  it("splits markdown italics into segments", () => {
+    expect(splitItalics("*Smith v. Jones*, 1 F.3d 2")).toEqual([
+      { text: "Smith v. Jones", italic: true },
+      { text: ", 1 F.3d 2", italic: false },
+    ]);
+  });
+
+  it("recognizes html and latex markup", () => {
+    expect(splitItalics("<i>See</i> <em>Doe</em>")).toEqual([
+      { text: "See", italic: true },
+      { text: " ", italic: false },
+      { text: "Doe", italic: true },
+    ]);
+    expect(splitItalics("\\textit{Id.} \\emph{supra}")).toEqual([
+      { text: "Id.", italic: true },
+      { text: " ", italic: false },
+      { text: "supra", italic: true },
+    ]);
+  });
+
+  it("does not treat star-page pincites as italics", () => {
+    expect(splitItalics("2020 WL 1234567, at *3, *5")).toEqual([
+      { text: "2020 WL 1234567, at *3, *5", italic: false },
+    ]);
+  });
+
+  it("returns no segments for empty text", () => {
+    expect(splitItalics("")).toEqual([]);
+  });
+});
+
+describe("formatItalics", () => {
+  const citation = "*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)";
+
+  it.each([
+    ["markdown", "*Smith v. Jones*, 1 F.3d 2 (9th Cir. 1993)"],
+    ["html", "<i>Smith v. Jones</i>, 1 F.3d 2 (9th Cir. 1993)"],
+    ["html-em", "<em>Smith v. Jones</em>, 1 F.3d 2 (9th Cir. 1993)"],
+    ["latex", "\\textit{Smith v. Jones}, 1 F.3d 2 (9th Cir. 1993)"],
+    ["latex-emph", "\\emph{Smith v. Jones}, 1 F.3d 2 (9th Cir. 1993)"],
+    ["rtf", "{\\i Smith v. Jones}, 1 F.3d 2 (9th Cir. 1993)"],
+    ["plain", "Smith v. Jones, 1 F.3d 2 (9th Cir. 1993)"],
+  ] as const)("renders %s", (style, expected) => {
+    expect(formatItalics(citation, style)).toBe(expected);
+  });
+
+  it("converts between markup styles", () => {
+    expect(formatItalics("<i>Id.</i> at 5", "latex")).toBe("\\textit{Id.} at 5");
+    expect(formatItalics("\\emph{Id.} at 5", "markdown")).toBe("*Id.* at 5");
+    expect(formatItalics("{\\i See} {\\i Id.} at 5", "html")).toBe("<i>See</i> <i>Id.</i> at 5");
+  });
+});
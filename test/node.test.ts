@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createFileCache } from "../src/node.js";
+
+describe("createFileCache", () => {
+  async function withDir(fn: (dir: string) => Promise<void>) {
+    const dir = await mkdtemp(join(tmpdir(), "bluebookify-cache-"));
+    try {
+      await fn(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  it("treats a missing file as empty and persists entries as JSON", () =>
+    withDir(async (dir) => {
+      const path = join(dir, "cache.json");
+      const cache = createFileCache(path);
+      expect(await cache.get("a")).toBeUndefined();
+
+      const a = { citation: "42 U.S.C. § 1983" };
+      const b = { citation: "*Smith v. Jones*, 1 F.3d 2 (1993)", rule: "Rule 10.2", explanation: "Italicize the case name." };
+      await Promise.all([cache.set("a", a), cache.set("b", b)]);
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ a, b });
+
+      expect(await createFileCache(path).get("b")).toEqual(b);
+    }));
+
+  it("loads existing entries", () =>
+    withDir(async (dir) => {
+      const path = join(dir, "cache.json");
+      await writeFile(path, JSON.stringify({ k: { citation: "28 U.S.C. § 1331", rule: "Rule 12.9" } }));
+      expect(await createFileCache(path).get("k")).toEqual({ citation: "28 U.S.C. § 1331", rule: "Rule 12.9" });
+    }));
+});
+
+describe("main entry point", () => {
+  it("imports no Node built-ins", async () => {
+    const src = join(dirname(fileURLToPath(import.meta.url)), "../src");
+    const seen = new Set<string>();
+    const builtins: string[] = [];
+    const visit = async (file: string) => {
+      if (seen.has(file)) return;
+      seen.add(file);
+      const code = await readFile(join(src, file), "utf8");
+      for (const [, spec] of code.matchAll(/^import (?!type )[^"]*"([^"]+)"/gm)) {
+        if (spec.startsWith("node:")) builtins.push(`${file}: ${spec}`);
+        if (spec.startsWith("./")) await visit(spec.slice(2).replace(/\.js$/, ".ts"));
+      }
+      for (const [, spec] of code.matchAll(/^export [^;]* from "(\.\/[^"]+)"/gm)) {
+        await visit(spec.slice(2).replace(/\.js$/, ".ts"));
+      }
+    };
+    await visit("index.ts");
+    expect(builtins).toEqual([]);
+  });
+});
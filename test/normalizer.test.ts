@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { normalizeCitation } from "../src/normalizer.js";
+import { STYLES } from "../src/styles.js";
+
+describe("normalizeCitation", () => {
+  it("replaces vs. with v.", () => {
+    expect(normalizeCitation("Smith vs. Jones, 1 F.3d 2")).toBe("Smith v. Jones, 1 F.3d 2");
+  });
+
+  it("replaces vs and a bare v with v.", () => {
+    expect(normalizeCitation("Smith vs Jones")).toBe("Smith v. Jones");
+    expect(normalizeCitation("Marbury v Madison")).toBe("Marbury v. Madison");
+  });
+
+  it("leaves a correct v. alone", () => {
+    expect(normalizeCitation("Marbury v. Madison, 5 U.S. 137 (1803)")).toBe(
+      "Marbury v. Madison, 5 U.S. 137 (1803)"
+    );
+  });
+
+  it("fixes United States Reports abbreviation", () => {
+    expect(normalizeCitation("5 US 137")).toBe("5 U.S. 137");
+    expect(normalizeCitation("5 U.S 137")).toBe("5 U.S. 137");
+    expect(normalizeCitation("5 U. S. 137")).toBe("5 U.S. 137");
+  });
+
+  it("does not touch U.S.C.", () => {
+    expect(normalizeCitation("42 U.S.C. § 1983")).toBe("42 U.S.C. § 1983");
+  });
+
+  it("closes up Federal Reporter series", () => {
+    expect(normalizeCitation("456 F. 3d 789")).toBe("456 F.3d 789");
+    expect(normalizeCitation("50 F. 4th 300")).toBe("50 F.4th 300");
+  });
+
+  it("spaces Supreme Court Reporter and Lawyers' Edition", () => {
+    expect(normalizeCitation("123 S.Ct. 456")).toBe("123 S. Ct. 456");
+    expect(normalizeCitation("12 L.Ed.2d 34")).toBe("12 L. Ed. 2d 34");
+    expect(normalizeCitation("12 L.Ed. 34")).toBe("12 L. Ed. 34");
+  });
+
+  it("spaces Federal Supplement and Federal Appendix", () => {
+    expect(normalizeCitation("100 F.Supp.3d 200")).toBe("100 F. Supp. 3d 200");
+    expect(normalizeCitation("100 F.Supp. 200")).toBe("100 F. Supp. 200");
+    expect(normalizeCitation("10 F.App'x 20")).toBe("10 F. App'x 20");
+  });
+
+  it("canonicalizes regional and state reporter spacing", () => {
+    expect(normalizeCitation("100 A. 3d 200")).toBe("100 A.3d 200");
+    expect(normalizeCitation("100 So.3d 200")).toBe("100 So. 3d 200");
+    expect(normalizeCitation("100 Cal.Rptr.3d 200")).toBe("100 Cal. Rptr. 3d 200");
+    expect(normalizeCitation("Smith, 100 N. Y. S. 3d at 205")).toBe("Smith, 100 N.Y.S.3d at 205");
+  });
+
+  it("preserves a curly apostrophe in F. App’x", () => {
+    expect(normalizeCitation("10 F.App’x 20")).toBe("10 F. App’x 20");
+  });
+
+  it("inserts a space after the section symbol", () => {
+    expect(normalizeCitation("42 U.S.C. §1983")).toBe("42 U.S.C. § 1983");
+    expect(normalizeCitation("42 U.S.C. §§1983-1985")).toBe("42 U.S.C. §§ 1983-1985");
+    expect(normalizeCitation("42 U.S.C. §   1983")).toBe("42 U.S.C. § 1983");
+  });
+
+  it("inserts a space after the paragraph symbol", () => {
+    expect(normalizeCitation("(Compl. ¶5)")).toBe("(Compl. ¶ 5)");
+    expect(normalizeCitation("(Compl. ¶¶5-7)")).toBe("(Compl. ¶¶ 5-7)");
+  });
+
+  it.each([
+    ["Smith v. Jones, 1 F.3d 2, 5 (9th Circuit 1999)", "Smith v. Jones, 1 F.3d 2, 5 (9th Cir. 1999)"],
+    ["Smith v. Jones, 1 F. Supp. 2d 2 (S.D.N.Y 2010)", "Smith v. Jones, 1 F. Supp. 2d 2 (S.D.N.Y. 2010)"],
+    ["Smith v. Jones, 1 F. Supp. 3d 2 (N.D. Cal 2015)", "Smith v. Jones, 1 F. Supp. 3d 2 (N.D. Cal. 2015)"],
+    ["Smith v. Jones, 1 F.3d 2 (2nd Cir., 1999)", "Smith v. Jones, 1 F.3d 2 (2d Cir. 1999)"],
+    ["Smith v. Jones, 1 F.3d 2, 5 n.3 (9th Circuit 1999)", "Smith v. Jones, 1 F.3d 2, 5 n.3 (9th Cir. 1999)"],
+  ])("canonicalizes the court in %s", (citation, expected) => {
+    expect(normalizeCitation(citation)).toBe(expected);
+  });
+
+  it("leaves unknown courts and year-only parentheticals alone", () => {
+    expect(normalizeCitation("Smith v. Jones, 1 F.3d 2 (Foo Ct. 1999)")).toBe("Smith v. Jones, 1 F.3d 2 (Foo Ct. 1999)");
+    expect(normalizeCitation("Marbury v. Madison, 5 U.S. 137 (1803)")).toBe("Marbury v. Madison, 5 U.S. 137 (1803)");
+  });
+
+  it("applies several rules to one citation", () => {
+    expect(normalizeCitation("Marbury vs. Madison, 5 US 137 (1803)")).toBe(
+      "Marbury v. Madison, 5 U.S. 137 (1803)"
+    );
+  });
+
+  it("uses a style profile's reporter spellings", () => {
+    expect(normalizeCitation("People v. Smith (2000) 22 Cal. 4th 1", STYLES.california)).toBe(
+      "People v. Smith (2000) 22 Cal.4th 1"
+    );
+    expect(normalizeCitation("530 U.S. 1, 120 S.Ct. 2000", STYLES.california)).toBe("530 U.S. 1, 120 S.Ct. 2000");
+    expect(normalizeCitation("22 Cal.4th 1")).toBe("22 Cal. 4th 1");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { parseCitation } from "../src/parser.js";
+
+describe("parseCitation", () => {
+  it("parses a full case citation", () => {
+    expect(parseCitation("Smith v. Jones, 100 F.3d 200, 205 (1st Cir. 1996)")).toEqual({
+      kind: "case",
+      caseName: "Smith v. Jones",
+      parties: ["Smith", "Jones"],
+      volume: 100,
+      reporter: "F.3d",
+      firstPage: 200,
+      pincites: ["205"],
+      court: "1st Cir.",
+      year: 1996,
+    });
+  });
+
+  it("parses a Supreme Court case with year-only parenthetical", () => {
+    const parsed = parseCitation("Marbury v. Madison, 5 U.S. 137 (1803)");
+    expect(parsed.kind).toBe("case");
+    if (parsed.kind !== "case") return;
+    expect(parsed.court).toBeUndefined();
+    expect(parsed.year).toBe(1803);
+    expect(parsed.pincites).toEqual([]);
+  });
+
+  it("canonicalizes the reporter and strips italic markers", () => {
+    const parsed = parseCitation("*Doe v. Roe*, 100 F. Supp.3d 200 (S.D.N.Y. 2015)");
+    expect(parsed).toMatchObject({ kind: "case", caseName: "Doe v. Roe", reporter: "F. Supp. 3d" });
+  });
+
+  it("parses multi-word parties", () => {
+    const parsed = parseCitation("United States v. Acme Widget Co., 10 F.4th 20 (2d Cir. 2021)");
+    expect(parsed).toMatchObject({ kind: "case", parties: ["United States", "Acme Widget Co."] });
+  });
+
+  it("records a leading signal", () => {
+    expect(parseCitation("See also Adams v. Baker, 200 U.S. 50 (1905)")).toMatchObject({
+      kind: "case",
+      signal: "See also",
+      caseName: "Adams v. Baker",
+    });
+  });
+
+  it("parses a statute with subsections", () => {
+    expect(parseCitation("42 U.S.C. § 1983(a)(1)")).toEqual({
+      kind: "statute",
+      title: 42,
+      code: "U.S.C.",
+      section: "1983",
+      subsections: ["a", "1"],
+    });
+  });
+
+  it("parses a regulation and a section range", () => {
+    expect(parseCitation("29 C.F.R. § 1926.1053")).toMatchObject({ code: "C.F.R.", section: "1926.1053" });
+    expect(parseCitation("42 U.S.C. §§ 1983-1985")).toMatchObject({ section: "1983", endSection: "1985" });
+  });
+
+  it("parses a short form", () => {
+    expect(parseCitation("Smith, 456 F.3d at 792")).toEqual({
+      kind: "short-form",
+      party: "Smith",
+      volume: 456,
+      reporter: "F.3d",
+      pincite: "792",
+    });
+  });
+
+  it("parses a California Style Manual case citation", () => {
+    expect(parseCitation("*People v. Smith* (2000) 22 Cal.4th 1, 5")).toEqual({
+      kind: "case",
+      caseName: "People v. Smith",
+      parties: ["People", "Smith"],
+      volume: 22,
+      reporter: "Cal. 4th",
+      firstPage: 1,
+      pincites: ["5"],
+      year: 2000,
+    });
+    expect(parseCitation("Smith v. Jones (9th Cir. 2001) 250 F.3d 1")).toMatchObject({ court: "9th Cir.", year: 2001 });
+  });
+
+  it("parses an unreported database citation", () => {
+    expect(
+      parseCitation("Smith v. Jones, No. 19-cv-1234, 2020 WL 1234567, at *3 (S.D.N.Y. Jan. 5, 2020)")
+    ).toEqual({
+      kind: "unreported",
+      caseName: "Smith v. Jones",
+      parties: ["Smith", "Jones"],
+      docket: "19-cv-1234",
+      database: "2020 WL 1234567",
+      slipOpinion: false,
+      pincites: ["*3"],
+      court: "S.D.N.Y.",
+      date: "Jan. 5, 2020",
+      year: 2020,
+    });
+    expect(parseCitation("Doe v. Roe, 2020 U.S. Dist. LEXIS 12345")).toMatchObject({
+      kind: "unreported",
+      database: "2020 U.S. Dist. LEXIS 12345",
+      pincites: [],
+    });
+  });
+
+  it("parses a slip opinion and unreported short forms", () => {
+    expect(parseCitation("Smith v. Jones, No. 19-1234, slip op. at 5 (2d Cir. Jan. 5, 2020)")).toMatchObject({
+      kind: "unreported",
+      docket: "19-1234",
+      slipOpinion: true,
+      pincites: ["5"],
+      court: "2d Cir.",
+    });
+    expect(parseCitation("Smith, 2020 WL 1234567, at *4")).toEqual({
+      kind: "unreported-short-form",
+      party: "Smith",
+      database: "2020 WL 1234567",
+      pincite: "*4",
+    });
+    expect(parseCitation("Smith, slip op. at 6")).toEqual({ kind: "unreported-short-form", party: "Smith", pincite: "6" });
+  });
+
+  it("parses Id. with and without a pincite", () => {
+    expect(parseCitation("Id.")).toEqual({ kind: "id" });
+    expect(parseCitation("Id. at 155")).toEqual({ kind: "id", pincite: "155" });
+    expect(parseCitation("Id. at *4")).toEqual({ kind: "id", pincite: "*4" });
+    expect(parseCitation("See id. at 155")).toEqual({ kind: "id", pincite: "155", signal: "See" });
+  });
+
+  it("parses supra with author, note and pincite", () => {
+    expect(parseCitation("Smith, supra note 12, at 45")).toEqual({
+      kind: "supra",
+      author: "Smith",
+      note: 12,
+      pincite: "45",
+    });
+  });
+
+  it("parses supra and infra references to parts", () => {
+    expect(parseCitation("supra Part II.A")).toEqual({ kind: "supra", section: "Part II.A" });
+    expect(parseCitation("infra note 30")).toEqual({ kind: "infra", note: 30 });
+  });
+
+  it("parses hereinafter designations", () => {
+    expect(parseCitation("[hereinafter Restatement]")).toEqual({ kind: "hereinafter", shortName: "Restatement" });
+    expect(parseCitation("(hereinafter Restatement)")).toEqual({ kind: "hereinafter", shortName: "Restatement" });
+  });
+
+  it("returns unknown for unrecognized text", () => {
+    expect(parseCitation("something else")).toEqual({ kind: "unknown", text: "something else" });
+  });
+});
@@ -74,6 +74,24 @@ describe("parseResponse", () => {
     expect(result[0].id).toBe(0);
     expect(result[1].id).toBe(1);
   });
+
+  it("parses optional rule and explanation", () => {
+    const result = parseResponse(
+      '[{"id":0,"citation":"*Smith v. Jones*","rule":" Rule 10.2.1 ","explanation":"Case names are italicized."},' +
+        '{"id":1,"citation":"Id.","rule":null}]'
+    );
+    expect(result).toEqual([
+      { id: 0, citation: "*Smith v. Jones*", rule: "Rule 10.2.1", explanation: "Case names are italicized." },
+      { id: 1, citation: "Id." },
+    ]);
+  });
+
+  it("throws on a non-string or empty rule", () => {
+    expect(() => parseResponse('[{"id":0,"citation":"Id.","rule":10}]')).toThrow("Invalid rule at index 0");
+    expect(() => parseResponse('[{"id":0,"citation":"Id.","explanation":"  "}]')).toThrow(
+      "Invalid explanation at index 0"
+    );
+  });
 });
 
 describe("applyCorrections", () => {
@@ -191,3 +209,17 @@ describe("applyCorrections", () => {
     );
   });
 });
+
+describe("applyCorrections rule and explanation", () => {
+  it("carries rule and explanation into each applied correction", () => {
+    const text = "See Smith v Jones here";
+    const original = "Smith v Jones";
+    const contexts: CitationContext[] = [
+      { id: 0, original, before: "See ", after: " here", start: 4, end: 4 + original.length },
+    ];
+    const { appliedCorrections } = applyCorrections(text, contexts, [
+      { id: 0, citation: "*Smith v. Jones*", rule: "Rule 10.2.1", explanation: "Use v." },
+    ]);
+    expect(appliedCorrections[0]).toMatchObject({ rule: "Rule 10.2.1", explanation: "Use v.", source: "llm" });
+  });
+});
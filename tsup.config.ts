@@ -1,9 +1,17 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  entry: ["src/index.ts"],
-  format: ["esm", "cjs"],
-  dts: true,
-  clean: true,
-  splitting: false,
-});
+export default defineConfig([
+  {
+    entry: ["src/index.ts", "src/node.ts"],
+    format: ["esm", "cjs"],
+    dts: true,
+    clean: true,
+    splitting: false,
+  },
+  {
+    entry: { cli: "src/bin.ts" },
+    format: ["esm"],
+    banner: { js: "#!/usr/bin/env node" },
+    splitting: false,
+  },
+]);